@@ -9,6 +9,26 @@ interface IPegasysGovernanceV2 {
     uint248 votingPower;
   }
 
+  struct ProposalWithoutVotes {
+    uint256 id;
+    address creator;
+    address executor;
+    address[] targets;
+    uint256[] values;
+    string[] signatures;
+    bytes[] calldatas;
+    bool[] withDelegatecalls;
+    uint256 startBlock;
+    uint256 endBlock;
+    uint256 executionTime;
+    uint256 forVotes;
+    uint256 againstVotes;
+    bool executed;
+    bool canceled;
+    address strategy;
+    bytes32 ipfsHash;
+  }
+
   /**
    Added for test purposes
    **/
@@ -99,6 +119,13 @@ interface IPegasysGovernanceV2 {
    **/
   function getProposalsCount() external view returns (uint256);
 
+  /**
+   * @dev Getter of a proposal by id
+   * @param proposalId id of the proposal to get
+   * @return the proposal as ProposalWithoutVotes memory object
+   **/
+  function getProposalById(uint256 proposalId) external view returns (ProposalWithoutVotes memory);
+
   function getProposalState(uint256 proposalId) external view returns (ProposalState);
 
   function getGuardian() external view returns (address);
@@ -0,0 +1,155 @@
+// SPDX-License-Identifier: agpl-3.0
+pragma solidity 0.7.5;
+
+/**
+ * @title ExecutorMock
+ * @notice Timelock executing the actions queued by its admin, the governance, once the delay passed
+ * and before the grace period ends. Stands in for the ExecutorWithTimelock of the governance.
+ */
+contract ExecutorMock {
+  address public immutable ADMIN;
+  uint256 public immutable DELAY;
+  uint256 public immutable GRACE_PERIOD;
+
+  mapping(bytes32 => bool) private _queuedTransactions;
+
+  event QueuedAction(
+    bytes32 actionHash,
+    address indexed target,
+    uint256 value,
+    string signature,
+    bytes data,
+    uint256 executionTime,
+    bool withDelegatecall
+  );
+
+  event CancelledAction(bytes32 actionHash);
+
+  event ExecutedAction(bytes32 actionHash, address indexed target, bytes resultData);
+
+  modifier onlyAdmin() {
+    require(msg.sender == ADMIN, 'ONLY_BY_ADMIN');
+    _;
+  }
+
+  constructor(address admin, uint256 delay, uint256 gracePeriod) {
+    ADMIN = admin;
+    DELAY = delay;
+    GRACE_PERIOD = gracePeriod;
+  }
+
+  function getDelay() external view returns (uint256) {
+    return DELAY;
+  }
+
+  function isActionQueued(bytes32 actionHash) external view returns (bool) {
+    return _queuedTransactions[actionHash];
+  }
+
+  function queueTransaction(
+    address target,
+    uint256 value,
+    string memory signature,
+    bytes memory data,
+    uint256 executionTime,
+    bool withDelegatecall
+  ) external onlyAdmin returns (bytes32) {
+    require(executionTime >= block.timestamp + DELAY, 'EXECUTION_TIME_UNDERESTIMATED');
+
+    bytes32 actionHash = _getActionHash(
+      target,
+      value,
+      signature,
+      data,
+      executionTime,
+      withDelegatecall
+    );
+    _queuedTransactions[actionHash] = true;
+
+    emit QueuedAction(actionHash, target, value, signature, data, executionTime, withDelegatecall);
+    return actionHash;
+  }
+
+  function cancelTransaction(
+    address target,
+    uint256 value,
+    string memory signature,
+    bytes memory data,
+    uint256 executionTime,
+    bool withDelegatecall
+  ) external onlyAdmin returns (bytes32) {
+    bytes32 actionHash = _getActionHash(
+      target,
+      value,
+      signature,
+      data,
+      executionTime,
+      withDelegatecall
+    );
+    _queuedTransactions[actionHash] = false;
+
+    emit CancelledAction(actionHash);
+    return actionHash;
+  }
+
+  function executeTransaction(
+    address target,
+    uint256 value,
+    string memory signature,
+    bytes memory data,
+    uint256 executionTime,
+    bool withDelegatecall
+  ) external payable onlyAdmin returns (bytes memory) {
+    bytes32 actionHash = _getActionHash(
+      target,
+      value,
+      signature,
+      data,
+      executionTime,
+      withDelegatecall
+    );
+    require(_queuedTransactions[actionHash], 'ACTION_NOT_QUEUED');
+    require(block.timestamp >= executionTime, 'TIMELOCK_NOT_FINISHED');
+    require(block.timestamp <= executionTime + GRACE_PERIOD, 'GRACE_PERIOD_FINISHED');
+
+    _queuedTransactions[actionHash] = false;
+
+    bytes memory callData = bytes(signature).length == 0
+      ? data
+      : abi.encodePacked(bytes4(keccak256(bytes(signature))), data);
+
+    bool success;
+    bytes memory resultData;
+    if (withDelegatecall) {
+      require(msg.value >= value, 'NOT_ENOUGH_MSG_VALUE');
+      // solium-disable-next-line security/no-call-value
+      (success, resultData) = target.delegatecall(callData);
+    } else {
+      // solium-disable-next-line security/no-call-value
+      (success, resultData) = target.call{value: value}(callData);
+    }
+
+    // Bubbles up the revert reason of the action, so failing proposals are easy to diagnose
+    if (!success) {
+      assembly {
+        revert(add(resultData, 32), mload(resultData))
+      }
+    }
+
+    emit ExecutedAction(actionHash, target, resultData);
+    return resultData;
+  }
+
+  function _getActionHash(
+    address target,
+    uint256 value,
+    string memory signature,
+    bytes memory data,
+    uint256 executionTime,
+    bool withDelegatecall
+  ) internal pure returns (bytes32) {
+    return keccak256(abi.encode(target, value, signature, data, executionTime, withDelegatecall));
+  }
+
+  receive() external payable {}
+}
@@ -0,0 +1,280 @@
+// SPDX-License-Identifier: agpl-3.0
+pragma solidity 0.7.5;
+pragma abicoder v2;
+
+import {IERC20} from '../interfaces/IERC20.sol';
+import {IPegasysGovernanceV2} from '../interfaces/IPegasysGovernanceV2.sol';
+import {ExecutorMock} from './ExecutorMock.sol';
+
+/**
+ * @title GovernanceMock
+ * @notice Governance with the lifecycle of PegasysGovernanceV2, to simulate proposals without a
+ * fork. Voting power is the balance of the voting token when voting, or 1 per voter if none is set,
+ * and proposals pass with more power for than against.
+ */
+contract GovernanceMock is IPegasysGovernanceV2 {
+  struct Proposal {
+    address creator;
+    ExecutorMock executor;
+    address[] targets;
+    uint256[] values;
+    string[] signatures;
+    bytes[] calldatas;
+    bool[] withDelegatecalls;
+    uint256 startBlock;
+    uint256 endBlock;
+    uint256 executionTime;
+    uint256 forVotes;
+    uint256 againstVotes;
+    bool executed;
+    bool canceled;
+    bytes32 ipfsHash;
+    mapping(address => Vote) votes;
+  }
+
+  string public constant NAME = 'Pegasys Governance v2';
+  bytes32 public constant DOMAIN_TYPEHASH =
+    keccak256('EIP712Domain(string name,uint256 chainId,address verifyingContract)');
+  bytes32 public constant VOTE_EMITTED_TYPEHASH = keccak256('VoteEmitted(uint256 id,bool support)');
+
+  address public immutable VOTING_TOKEN;
+  uint256 public immutable VOTING_DELAY;
+  uint256 public immutable VOTING_DURATION;
+
+  address private immutable _guardian;
+  uint256 private _proposalsCount;
+  mapping(uint256 => Proposal) private _proposals;
+
+  event ProposalCreated(
+    uint256 id,
+    address indexed creator,
+    address indexed executor,
+    bytes32 ipfsHash
+  );
+  event ProposalCanceled(uint256 id);
+  event ProposalQueued(uint256 id, uint256 executionTime, address indexed initiatorQueueing);
+  event ProposalExecuted(uint256 id, address indexed initiatorExecution);
+  event VoteEmitted(uint256 id, address indexed voter, bool support, uint256 votingPower);
+
+  constructor(address votingToken, uint256 votingDelay, uint256 votingDuration) {
+    VOTING_TOKEN = votingToken;
+    VOTING_DELAY = votingDelay;
+    VOTING_DURATION = votingDuration;
+    _guardian = msg.sender;
+  }
+
+  function create(
+    address executor,
+    address[] memory targets,
+    uint256[] memory values,
+    string[] memory signatures,
+    bytes[] memory calldatas,
+    bool[] memory withDelegatecalls,
+    bytes32 ipfsHash
+  ) external override returns (uint256) {
+    require(targets.length != 0, 'INVALID_EMPTY_TARGETS');
+    require(
+      targets.length == values.length &&
+        targets.length == signatures.length &&
+        targets.length == calldatas.length &&
+        targets.length == withDelegatecalls.length,
+      'INCONSISTENT_PARAMS_LENGTH'
+    );
+
+    uint256 id = _proposalsCount++;
+    Proposal storage proposal = _proposals[id];
+    proposal.creator = msg.sender;
+    proposal.executor = ExecutorMock(payable(executor));
+    proposal.targets = targets;
+    proposal.values = values;
+    proposal.signatures = signatures;
+    proposal.calldatas = calldatas;
+    proposal.withDelegatecalls = withDelegatecalls;
+    proposal.startBlock = block.number + VOTING_DELAY;
+    proposal.endBlock = proposal.startBlock + VOTING_DURATION;
+    proposal.ipfsHash = ipfsHash;
+
+    emit ProposalCreated(id, msg.sender, executor, ipfsHash);
+    return id;
+  }
+
+  function cancel(uint256 proposalId) external override {
+    ProposalState state = getProposalState(proposalId);
+    require(
+      state != ProposalState.Executed &&
+        state != ProposalState.Canceled &&
+        state != ProposalState.Expired,
+      'ONLY_BEFORE_EXECUTED'
+    );
+    Proposal storage proposal = _proposals[proposalId];
+    require(msg.sender == _guardian || msg.sender == proposal.creator, 'ONLY_BY_GUARDIAN');
+    proposal.canceled = true;
+
+    if (state == ProposalState.Queued) {
+      for (uint256 i = 0; i < proposal.targets.length; i++) {
+        proposal.executor.cancelTransaction(
+          proposal.targets[i],
+          proposal.values[i],
+          proposal.signatures[i],
+          proposal.calldatas[i],
+          proposal.executionTime,
+          proposal.withDelegatecalls[i]
+        );
+      }
+    }
+
+    emit ProposalCanceled(proposalId);
+  }
+
+  function queue(uint256 proposalId) external override {
+    require(getProposalState(proposalId) == ProposalState.Succeeded, 'INVALID_STATE_FOR_QUEUE');
+    Proposal storage proposal = _proposals[proposalId];
+    uint256 executionTime = block.timestamp + proposal.executor.getDelay();
+    for (uint256 i = 0; i < proposal.targets.length; i++) {
+      proposal.executor.queueTransaction(
+        proposal.targets[i],
+        proposal.values[i],
+        proposal.signatures[i],
+        proposal.calldatas[i],
+        executionTime,
+        proposal.withDelegatecalls[i]
+      );
+    }
+    proposal.executionTime = executionTime;
+
+    emit ProposalQueued(proposalId, executionTime, msg.sender);
+  }
+
+  function execute(uint256 proposalId) external payable override {
+    require(getProposalState(proposalId) == ProposalState.Queued, 'ONLY_QUEUED_PROPOSALS');
+    Proposal storage proposal = _proposals[proposalId];
+    proposal.executed = true;
+    for (uint256 i = 0; i < proposal.targets.length; i++) {
+      proposal.executor.executeTransaction{value: proposal.values[i]}(
+        proposal.targets[i],
+        proposal.values[i],
+        proposal.signatures[i],
+        proposal.calldatas[i],
+        proposal.executionTime,
+        proposal.withDelegatecalls[i]
+      );
+    }
+
+    emit ProposalExecuted(proposalId, msg.sender);
+  }
+
+  function submitVote(uint256 proposalId, bool support) external override {
+    _submitVote(msg.sender, proposalId, support);
+  }
+
+  function submitVoteBySignature(
+    uint256 proposalId,
+    bool support,
+    uint8 v,
+    bytes32 r,
+    bytes32 s
+  ) external override {
+    bytes32 domainSeparator = keccak256(
+      abi.encode(DOMAIN_TYPEHASH, keccak256(bytes(NAME)), _getChainId(), address(this))
+    );
+    bytes32 digest = keccak256(
+      abi.encodePacked(
+        '\x19\x01',
+        domainSeparator,
+        keccak256(abi.encode(VOTE_EMITTED_TYPEHASH, proposalId, support))
+      )
+    );
+    address signer = ecrecover(digest, v, r, s);
+    require(signer != address(0), 'INVALID_SIGNATURE');
+    _submitVote(signer, proposalId, support);
+  }
+
+  function getProposalsCount() external view override returns (uint256) {
+    return _proposalsCount;
+  }
+
+  function getProposalState(uint256 proposalId) public view override returns (ProposalState) {
+    require(proposalId < _proposalsCount, 'INVALID_PROPOSAL_ID');
+    Proposal storage proposal = _proposals[proposalId];
+    if (proposal.canceled) {
+      return ProposalState.Canceled;
+    } else if (block.number <= proposal.startBlock) {
+      return ProposalState.Pending;
+    } else if (block.number <= proposal.endBlock) {
+      return ProposalState.Active;
+    } else if (proposal.forVotes <= proposal.againstVotes) {
+      return ProposalState.Failed;
+    } else if (proposal.executionTime == 0) {
+      return ProposalState.Succeeded;
+    } else if (proposal.executed) {
+      return ProposalState.Executed;
+    } else if (block.timestamp > proposal.executionTime + proposal.executor.GRACE_PERIOD()) {
+      return ProposalState.Expired;
+    }
+    return ProposalState.Queued;
+  }
+
+  function getProposalById(
+    uint256 proposalId
+  ) external view override returns (ProposalWithoutVotes memory) {
+    require(proposalId < _proposalsCount, 'INVALID_PROPOSAL_ID');
+    Proposal storage proposal = _proposals[proposalId];
+    return
+      ProposalWithoutVotes({
+        id: proposalId,
+        creator: proposal.creator,
+        executor: address(proposal.executor),
+        targets: proposal.targets,
+        values: proposal.values,
+        signatures: proposal.signatures,
+        calldatas: proposal.calldatas,
+        withDelegatecalls: proposal.withDelegatecalls,
+        startBlock: proposal.startBlock,
+        endBlock: proposal.endBlock,
+        executionTime: proposal.executionTime,
+        forVotes: proposal.forVotes,
+        againstVotes: proposal.againstVotes,
+        executed: proposal.executed,
+        canceled: proposal.canceled,
+        strategy: VOTING_TOKEN,
+        ipfsHash: proposal.ipfsHash
+      });
+  }
+
+  function getGuardian() external view override returns (address) {
+    return _guardian;
+  }
+
+  function getVoteOnProposal(
+    uint256 proposalId,
+    address voter
+  ) external view override returns (Vote memory) {
+    return _proposals[proposalId].votes[voter];
+  }
+
+  function _submitVote(address voter, uint256 proposalId, bool support) internal {
+    require(getProposalState(proposalId) == ProposalState.Active, 'VOTING_CLOSED');
+    Proposal storage proposal = _proposals[proposalId];
+    require(proposal.votes[voter].votingPower == 0, 'VOTE_ALREADY_SUBMITTED');
+
+    uint256 votingPower = VOTING_TOKEN == address(0) ? 1 : IERC20(VOTING_TOKEN).balanceOf(voter);
+    require(votingPower != 0, 'NO_VOTING_POWER');
+
+    if (support) {
+      proposal.forVotes += votingPower;
+    } else {
+      proposal.againstVotes += votingPower;
+    }
+    proposal.votes[voter] = Vote({support: support, votingPower: uint248(votingPower)});
+
+    emit VoteEmitted(proposalId, voter, support, votingPower);
+  }
+
+  function _getChainId() internal pure returns (uint256) {
+    uint256 chainId;
+    assembly {
+      chainId := chainid()
+    }
+    return chainId;
+  }
+}
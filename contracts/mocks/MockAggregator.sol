@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: agpl-3.0
+pragma solidity 0.7.5;
+
+import {AggregatorInterface} from '../interfaces/AggregatorInterface.sol';
+
+contract MockAggregator is AggregatorInterface {
+  int256 private _latestAnswer;
+  uint256 private _latestTimestamp;
+  uint256 private _latestRound;
+
+  constructor(int256 answer) public {
+    setAnswer(answer);
+  }
+
+  function setAnswer(int256 answer) public {
+    _latestAnswer = answer;
+    _latestTimestamp = block.timestamp;
+    _latestRound++;
+    emit AnswerUpdated(answer, _latestRound, block.timestamp);
+  }
+
+  function latestAnswer() external view override returns (int256) {
+    return _latestAnswer;
+  }
+
+  function latestTimestamp() external view override returns (uint256) {
+    return _latestTimestamp;
+  }
+
+  function latestRound() external view override returns (uint256) {
+    return _latestRound;
+  }
+
+  function getAnswer(uint256) external view override returns (int256) {
+    return _latestAnswer;
+  }
+
+  function getTimestamp(uint256) external view override returns (uint256) {
+    return _latestTimestamp;
+  }
+}
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: agpl-3.0
+pragma solidity 0.7.5;
+pragma experimental ABIEncoderV2;
+
+import {SafeMath} from '../lib/SafeMath.sol';
+
+/**
+ * @dev Exposes the subset of the staked token interface read by the StakedTokenDataProvider,
+ * with setters for every value
+ **/
+contract StakedTokenMock {
+  using SafeMath for uint256;
+
+  struct AssetData {
+    uint128 emissionPerSecond;
+    uint128 lastUpdateTimestamp;
+    uint256 index;
+  }
+
+  struct CooldownSnapshot {
+    uint40 timestamp;
+    uint216 amount;
+  }
+
+  uint256 public constant EXCHANGE_RATE_UNIT = 1e18;
+
+  address public immutable STAKED_TOKEN;
+  uint256 public immutable COOLDOWN_SECONDS;
+  uint256 public immutable UNSTAKE_WINDOW;
+  uint256 public immutable DISTRIBUTION_END;
+
+  uint256 public totalSupply;
+  uint216 public exchangeRate = uint216(EXCHANGE_RATE_UNIT);
+  mapping(address => uint256) public balanceOf;
+  mapping(address => uint256) public getTotalRewardsBalance;
+  mapping(address => CooldownSnapshot) public stakersCooldowns;
+  mapping(address => AssetData) internal _assets;
+
+  constructor(
+    address stakedToken,
+    uint256 cooldownSeconds,
+    uint256 unstakeWindow,
+    uint256 distributionDuration
+  ) public {
+    STAKED_TOKEN = stakedToken;
+    COOLDOWN_SECONDS = cooldownSeconds;
+    UNSTAKE_WINDOW = unstakeWindow;
+    DISTRIBUTION_END = block.timestamp.add(distributionDuration);
+  }
+
+  function setBalance(address user, uint256 amount) external {
+    totalSupply = totalSupply.sub(balanceOf[user]).add(amount);
+    balanceOf[user] = amount;
+  }
+
+  function setExchangeRate(uint216 rate) external {
+    exchangeRate = rate;
+  }
+
+  function setEmissionPerSecond(uint128 emissionPerSecond) external {
+    _assets[address(this)].emissionPerSecond = emissionPerSecond;
+  }
+
+  function setRewards(address user, uint256 amount) external {
+    getTotalRewardsBalance[user] = amount;
+  }
+
+  function setCooldown(address user, uint40 timestamp, uint216 amount) external {
+    stakersCooldowns[user] = CooldownSnapshot(timestamp, amount);
+  }
+
+  function assets(address asset) external view returns (AssetData memory) {
+    return _assets[asset];
+  }
+
+  function previewRedeem(uint256 shares) external view returns (uint256) {
+    return shares.mul(EXCHANGE_RATE_UNIT).div(exchangeRate);
+  }
+}
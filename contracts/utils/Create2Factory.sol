@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: agpl-3.0
+pragma solidity 0.7.5;
+
+/**
+ * @title Create2Factory
+ * @notice Deploys contracts with CREATE2, so their address only depends on this factory, the salt
+ * and the creation code. Deployed from a fresh account at nonce 0, the factory itself gets the same
+ * address on every network.
+ * @author Pegasys team
+ **/
+contract Create2Factory {
+  event Deployed(address indexed addr, bytes32 indexed salt);
+
+  /**
+   * @dev Deploys `bytecode` with `salt`, and calls the new contract with `data` if not empty,
+   * which allows to initialize proxies in the same transaction
+   * @param salt The CREATE2 salt
+   * @param bytecode The creation code, with the abi encoded constructor arguments appended
+   * @param data The calldata of the call to the new contract, empty to skip it
+   * @return addr The address of the deployed contract
+   **/
+  function deploy(
+    bytes32 salt,
+    bytes calldata bytecode,
+    bytes calldata data
+  ) external returns (address addr) {
+    bytes memory code = bytecode;
+
+    //solium-disable-next-line
+    assembly {
+      addr := create2(0, add(code, 0x20), mload(code), salt)
+    }
+    require(addr != address(0), 'CREATE2_FAILED');
+
+    if (data.length != 0) {
+      (bool success, ) = addr.call(data);
+      require(success, 'CALL_FAILED');
+    }
+
+    emit Deployed(addr, salt);
+  }
+
+  /**
+   * @dev Returns the address `deploy` gives to a creation code with `salt`
+   * @param salt The CREATE2 salt
+   * @param bytecodeHash The keccak256 of the creation code with the constructor arguments
+   * @return The address of the contract
+   **/
+  function computeAddress(bytes32 salt, bytes32 bytecodeHash) external view returns (address) {
+    return
+      address(
+        uint160(
+          uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), salt, bytecodeHash)))
+        )
+      );
+  }
+}
@@ -1,4 +1,5 @@
 import { eEthereumNetwork } from './helpers/types';
+import { NetworkRegistry, getNetworkRpcUrl } from './helpers/network-registry';
 // @ts-ignore
 import { accounts } from './test-wallets';
 import path from 'path';
@@ -19,6 +20,18 @@ const DEFAULT_BLOCK_GAS_LIMIT = 12500000;
 const ETHERSCAN_KEY = process.env.ETHERSCAN_KEY || '';
 const PRIVATE_KEY = process.env.PRIVATE_KEY || '';
 const SKIP_LOAD = process.env.SKIP_LOAD === 'true';
+const FORK = process.env.FORK || (process.env.MAINNET_FORK === 'true' ? eEthereumNetwork.main : '');
+const FORKING_BLOCK = process.env.FORKING_BLOCK ? parseInt(process.env.FORKING_BLOCK) : undefined;
+
+// Every registered network with an RPC url, the local ones are configured below
+const REMOTE_NETWORKS = Object.entries(NetworkRegistry).filter(
+  ([network, config]) => config?.rpcEnvVar && getNetworkRpcUrl(network)
+);
+const EXPLORER_NETWORKS = Object.entries(NetworkRegistry).filter(([, config]) => config?.explorer);
+
+// While forking, the deployer key signs first so dry runs predict the same addresses as the live network
+const FORK_ACCOUNTS =
+  FORK && PRIVATE_KEY ? [{ privateKey: PRIVATE_KEY, balance: accounts[0].balance }] : [];
 
 // Prevent to load scripts before compilation and typechain
 if (!SKIP_LOAD) {
@@ -34,6 +47,13 @@ if (!SKIP_LOAD) {
 
 require(`${path.join(__dirname, 'tasks/misc')}/set-dre.ts`);
 
+// Added to the default compiler output, used to check the storage compatibility of upgrades
+const STORAGE_LAYOUT_OUTPUT = {
+  '*': {
+    '*': ['storageLayout'],
+  },
+};
+
 const config: HardhatUserConfig = {
   solidity: {
     compilers: [
@@ -42,6 +62,7 @@ const config: HardhatUserConfig = {
         settings: {
           optimizer: { enabled: true, runs: 200 },
           evmVersion: 'istanbul',
+          outputSelection: STORAGE_LAYOUT_OUTPUT,
         },
       },
       {
@@ -49,6 +70,7 @@ const config: HardhatUserConfig = {
         settings: {
           optimizer: { enabled: true, runs: 200 },
           evmVersion: 'istanbul',
+          outputSelection: STORAGE_LAYOUT_OUTPUT,
         },
       },
     ],
@@ -57,30 +79,31 @@ const config: HardhatUserConfig = {
     outDir: 'types',
   },
   etherscan: {
-    apiKey: {
-      main: "abc" // Set to an empty string or some placeholder
-    },
-    customChains: [
-      {
-        network: "main",
-        chainId: 570,
-        urls: {
-          apiURL: "https://explorer.rollux.com/api",
-          browserURL: "https://explorer.rollux.com/"
-        }
-      }
-    ]
+    // Blockscout explorers accept any key
+    apiKey: Object.fromEntries(
+      EXPLORER_NETWORKS.map(([network]) => [network, ETHERSCAN_KEY || 'abc'])
+    ),
+    customChains: EXPLORER_NETWORKS.map(([network, config]) => ({
+      network,
+      chainId: config!.chainId,
+      urls: config!.explorer!,
+    })),
   },
   defaultNetwork: 'main',
   mocha: {
     timeout: 0,
   },
   networks: {
-    main: {
-      chainId: 570,
-      url: "https://rpc.rollux.com",
-      accounts: [PRIVATE_KEY]
-    }, 
+    ...Object.fromEntries(
+      REMOTE_NETWORKS.map(([network, config]) => [
+        network,
+        {
+          chainId: config!.chainId,
+          url: getNetworkRpcUrl(network)!,
+          accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
+        },
+      ])
+    ),
     // Hardhat config for testing purposes
     hardhat: {
       hardfork: 'london',
@@ -89,10 +112,21 @@ const config: HardhatUserConfig = {
       chainId: BUIDLEREVM_CHAIN_ID,
       throwOnTransactionFailures: true,
       throwOnCallFailures: true,
-      accounts: accounts.map(({ secretKey, balance }: { secretKey: string; balance: string }) => ({
-        privateKey: secretKey,
-        balance,
-      })),
+      accounts: [
+        ...FORK_ACCOUNTS,
+        ...accounts.map(({ secretKey, balance }: { secretKey: string; balance: string }) => ({
+          privateKey: secretKey,
+          balance,
+        })),
+      ],
+      ...(FORK
+        ? {
+            forking: {
+              url: getNetworkRpcUrl(FORK)!,
+              blockNumber: FORKING_BLOCK,
+            },
+          }
+        : {}),
     },
   },
 };
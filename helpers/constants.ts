@@ -1,5 +1,4 @@
-import { eEthereumNetwork, tEthereumAddress } from './types';
-import { getParamPerNetwork } from './misc-utils';
+import { tEthereumAddress } from './types';
 
 export const MAX_UINT_AMOUNT =
   '115792089237316195423570985008687907853269984665640564039457584007913129639935';
@@ -12,15 +11,28 @@ export const DISTRIBUTION_DURATION = '86400'; // 1 day in seconds
 export const STAKED_PSYS_NAME = 'Staked PSYS';
 export const STAKED_PSYS_SYMBOL = 'stkPSYS';
 export const STAKED_PSYS_DECIMALS = 18;
+export const STAKED_PSYS_REVISION = '2';
 
 export const PSYS_GOVERNANCE_V2 = '0x4894A8900D0fDB4DAAFA80383F212f03E1d0f351';
+// EIP-712 domain name of the governance, signs the votes submitted by signature
+export const GOVERNANCE_V2_NAME = 'Pegasys Governance v2';
 export const PSYS_TOKEN = '0x48023b16c3e81AA7F6eFFbdEB35Bb83f4f31a8fd';
 export const WETH = '0x4200000000000000000000000000000000000006';
 export const REWARDS_VAULT = '0x0460cC46f1703EE6A014a136354D8707cBD75f14'; //AaveEcossystemReserveV2 as Proxy
 export const LONG_EXECUTOR = '0xEC2d95Fa98F69401648484A6584AeE6de586b65c';
 export const SHORT_EXECUTOR = LONG_EXECUTOR;
+// Governance stand-in of the simulations, with the timelocks of the executors
+export const SIMULATION_VOTING_DURATION = '20'; // blocks
+export const SIMULATION_SHORT_DELAY = '86400'; // 1 day in seconds
+export const SIMULATION_LONG_DELAY = '604800'; // 7 days in seconds
+export const SIMULATION_GRACE_PERIOD = '432000'; // 5 days in seconds
 export const ZERO_ADDRESS: tEthereumAddress = '0x0000000000000000000000000000000000000000';
 
+// Storage slots of BaseUpgradeabilityProxy and BaseAdminUpgradeabilityProxy, as per EIP-1967
+export const IMPLEMENTATION_SLOT =
+  '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+export const ADMIN_SLOT = '0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103';
+
 // export const CRP_IMPLEMENTATION = '0xadc74a134082ea85105258407159fbb428a73782'; // BALANCER POOL
 // export const BPOOL_FACTORY = '0x9424B1412450D0f8Fc2255FAf6046b98213B76Bd'; // BALANCER POOL
 // export const UPGRADABLE_CRP_FACTORY = '0x1156C30b08DbF16281c803EAe0d52Eee7652f10C'; // ADDS BALANCER TOKEN SUPPORT
@@ -45,57 +57,3 @@ export const RANDOM_ADDRESSES = [
   '0x0000000000000000000000000000000000000621',
   '0x0000000000000000000000000000000000000721',
 ];
-
-export const getPSYStokenPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<tEthereumAddress>(
-    {
-      [eEthereumNetwork.hardhat]: ZERO_ADDRESS,
-      [eEthereumNetwork.main]: PSYS_TOKEN,
-    },
-    network
-  );
-
-export const getCooldownSecondsPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<string>(
-    {
-      [eEthereumNetwork.hardhat]: COOLDOWN_SECONDS,
-      [eEthereumNetwork.main]: '864000', // 10d
-    },
-    network
-  );
-
-export const getUnstakeWindowPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<string>(
-    {
-      [eEthereumNetwork.hardhat]: UNSTAKE_WINDOW,
-      [eEthereumNetwork.main]: '172800', // 2d
-    },
-    network
-  );
-
-export const getPegasysAdminPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<tEthereumAddress>(
-    {
-      [eEthereumNetwork.hardhat]: ZERO_ADDRESS,
-      [eEthereumNetwork.main]: LONG_EXECUTOR, // Executor used for Emission management
-    },
-    network
-  );
-
-export const getDistributionDurationPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<tEthereumAddress>(
-    {
-      [eEthereumNetwork.hardhat]: DISTRIBUTION_DURATION,
-      [eEthereumNetwork.main]: '12960000', // 5 months (30 days) in seconds
-    },
-    network
-  );
-
-export const getPegasysIncentivesVaultPerNetwork = (network: eEthereumNetwork): tEthereumAddress =>
-  getParamPerNetwork<tEthereumAddress>(
-    {
-      [eEthereumNetwork.hardhat]: ZERO_ADDRESS,
-      [eEthereumNetwork.main]: REWARDS_VAULT,
-    },
-    network
-  );
@@ -12,14 +12,19 @@ import { StakedTokenV3 } from '../types/StakedTokenV3';
 import { StakedTokenV3 } from '../types/StakedTokenV3';
 import { PegasysStakingHelper } from '../types/PegasysStakingHelper';
 import { StakeUiHelper } from '../types/StakeUiHelper';
+import { StakedTokenDataProvider } from '../types/StakedTokenDataProvider';
 import { Ierc20Detailed } from '../types/Ierc20Detailed';
 import { InitializableAdminUpgradeabilityProxy } from '../types/InitializableAdminUpgradeabilityProxy';
 import { PegasysIncentivesController } from '../types/PegasysIncentivesController';
 import { MockTransferHook } from '../types/MockTransferHook';
+import { MockAggregator } from '../types/MockAggregator';
+import { StakedTokenMock } from '../types/StakedTokenMock';
 import { verifyContract } from './etherscan-verification';
 import { ATokenMock } from '../types/ATokenMock';
 import { getDb, DRE } from './misc-utils';
 import { DoubleTransferHelper } from '../types/DoubleTransferHelper';
+import { GovernanceMock } from '../types/GovernanceMock';
+import { ExecutorMock } from '../types/ExecutorMock';
 import { zeroAddress } from 'ethereumjs-util';
 import { ZERO_ADDRESS } from './constants';
 import { Signer } from 'ethers';
@@ -72,7 +77,7 @@ export const deployStakedPSYSV3 = async (
     rewardsVault,
     emissionManager,
     distributionDuration,
-    governance
+    governance,
   ]: [
     tEthereumAddress,
     tEthereumAddress,
@@ -83,7 +88,8 @@ export const deployStakedPSYSV3 = async (
     string,
     string
   ],
-  verify?: boolean
+  verify?: boolean,
+  salt?: string
 ) => {
   const id = eContractid.StakedPSYSV3;
   const args: string[] = [
@@ -96,7 +102,14 @@ export const deployStakedPSYSV3 = async (
     distributionDuration,
     governance, // gov address
   ];
-  const instance = await deployContract<StakedPSYSV3>(id, args);
+  const instance = await deployContract<StakedPSYSV3>(
+    id,
+    args,
+    '',
+    undefined,
+    salt,
+    eContractid.StakedPSYSImpl
+  );
   if (verify) {
     await verifyContract(instance.address, args);
   }
@@ -153,7 +166,6 @@ export const deployStakedTokenV3 = async (
   return instance;
 };
 
-
 export const deployStakedTokenV3Revision3 = async (
   [
     stakedToken,
@@ -263,7 +275,8 @@ export const deployPegasysIncentivesController = async (
     tEthereumAddress,
     string
   ],
-  verify?: boolean
+  verify?: boolean,
+  salt?: string
 ) => {
   const id = eContractid.PegasysIncentivesController;
   const args: string[] = [
@@ -274,7 +287,14 @@ export const deployPegasysIncentivesController = async (
     emissionManager,
     distributionDuration,
   ];
-  const instance = await deployContract<PegasysIncentivesController>(id, args);
+  const instance = await deployContract<PegasysIncentivesController>(
+    id,
+    args,
+    '',
+    undefined,
+    salt,
+    eContractid.PegasysIncentivesControllerImpl
+  );
   await instance.deployTransaction.wait();
   if (verify) {
     await verifyContract(instance.address, args);
@@ -287,7 +307,10 @@ export const deployMintableErc20 = async ([name, symbol, decimals]: [string, str
 
 export const deployInitializableAdminUpgradeabilityProxy = async (
   verify?: boolean,
-  signer?: Signer
+  signer?: Signer,
+  salt?: string,
+  proxyId?: eContractid,
+  initializeData?: string
 ) => {
   const id = eContractid.InitializableAdminUpgradeabilityProxy;
   const args: string[] = [];
@@ -295,16 +318,37 @@ export const deployInitializableAdminUpgradeabilityProxy = async (
     id,
     args,
     '',
-    signer
+    signer,
+    salt,
+    proxyId,
+    initializeData
   );
   await instance.deployTransaction.wait();
+  if (verify) {
     await verifyContract(instance.address, args);
+  }
   return instance;
 };
 
 export const deployMockTransferHook = async () =>
   await deployContract<MockTransferHook>(eContractid.MockTransferHook, []);
 
+export const deployMockAggregator = async (answer: string, slug: string = '') =>
+  await deployContract<MockAggregator>(eContractid.MockAggregator, [answer], slug);
+
+export const deployStakedTokenMock = async ([
+  stakedToken,
+  cooldownSeconds,
+  unstakeWindow,
+  distributionDuration,
+]: [tEthereumAddress, string, string, string]) =>
+  await deployContract<StakedTokenMock>(eContractid.StakedTokenMock, [
+    stakedToken,
+    cooldownSeconds,
+    unstakeWindow,
+    distributionDuration,
+  ]);
+
 export const deployATokenMock = async (aicAddress: tEthereumAddress, slug: string) =>
   await deployContract<ATokenMock>(eContractid.ATokenMock, [aicAddress], slug);
 
@@ -327,7 +371,10 @@ export const getStakedPSYSV3 = getContractFactory<StakedPSYSV3>(eContractid.Stak
 export const getStakedPSYSProxy = async (address?: tEthereumAddress) => {
   return await getContract<InitializableAdminUpgradeabilityProxy>(
     eContractid.InitializableAdminUpgradeabilityProxy,
-    address || (await getDb().get(`${eContractid.StakedPSYSV3}.${DRE.network.name}`).value()).address
+    address ||
+      (
+        await getDb().get(`${eContractid.StakedPSYSV3}.${DRE.network.name}`).value()
+      ).address
   );
 };
 
@@ -386,12 +433,13 @@ export const deploySelfDestruct = async () => {
 
 export const deployPegasysStakingHelper = async (
   [addressStake, addressPegasys]: [tEthereumAddress, tEthereumAddress],
-  verify?: boolean
+  verify?: boolean,
+  salt?: string
 ) => {
   const id = eContractid.PegasysStakingHelper;
   const args: string[] = [addressStake, addressPegasys];
 
-  const instance = await deployContract<PegasysStakingHelper>(id, args);
+  const instance = await deployContract<PegasysStakingHelper>(id, args, '', undefined, salt);
   if (verify) {
     await verifyContract(instance.address, args);
   }
@@ -407,14 +455,69 @@ export const deployStakeUIHelper = async (
     tEthereumAddress,
     tEthereumAddress
   ],
-  verify?: boolean
+  verify?: boolean,
+  salt?: string
 ) => {
   const id = eContractid.StakeUIHelper;
   const args: string[] = [priceOracle, bptPriceFeed, psys, stkPSYS, bpt, stkBpt];
 
-  const instance = await deployContract<StakeUiHelper>(id, args);
+  const instance = await deployContract<StakeUiHelper>(id, args, '', undefined, salt);
   if (verify) {
     await verifyContract(instance.address, args);
   }
   return instance;
 };
+
+export const deployStakedTokenDataProvider = async (
+  [psys, stkPSYS, bpt, stkBpt, ethUsdPriceFeed, psysPriceFeed, bptPriceFeed]: [
+    tEthereumAddress,
+    tEthereumAddress,
+    tEthereumAddress,
+    tEthereumAddress,
+    tEthereumAddress,
+    tEthereumAddress,
+    tEthereumAddress
+  ],
+  verify?: boolean,
+  salt?: string
+) => {
+  const id = eContractid.StakedTokenDataProvider;
+  const args: string[] = [psys, stkPSYS, bpt, stkBpt, ethUsdPriceFeed, psysPriceFeed, bptPriceFeed];
+
+  const instance = await deployContract<StakedTokenDataProvider>(id, args, '', undefined, salt);
+  if (verify) {
+    await verifyContract(instance.address, args);
+  }
+  return instance;
+};
+
+export const getStakedTokenDataProvider = getContractFactory<StakedTokenDataProvider>(
+  eContractid.StakedTokenDataProvider
+);
+
+export const deployGovernanceMock = async (
+  [votingToken, votingDelay, votingDuration]: [tEthereumAddress, string, string],
+  signer?: Signer
+) =>
+  await deployContract<GovernanceMock>(
+    eContractid.GovernanceMock,
+    [votingToken, votingDelay, votingDuration],
+    '',
+    signer
+  );
+
+export const deployExecutorMock = async (
+  [admin, delay, gracePeriod]: [tEthereumAddress, string, string],
+  slug: string,
+  signer?: Signer
+) =>
+  await deployContract<ExecutorMock>(
+    eContractid.ExecutorMock,
+    [admin, delay, gracePeriod],
+    slug,
+    signer
+  );
+
+export const getGovernanceMock = getContractFactory<GovernanceMock>(eContractid.GovernanceMock);
+
+export const getExecutorMock = getContractFactory<ExecutorMock>(eContractid.ExecutorMock);
@@ -1,39 +1,161 @@
-import { Contract, Signer, utils } from 'ethers';
+import { BigNumber, Contract, Signer, utils } from 'ethers';
 
 import { DRE, getDb } from './misc-utils';
-import { eContractid, tEthereumAddress } from './types';
+import { eContractid, iDeploymentRecord, tEthereumAddress } from './types';
+import { ADMIN_SLOT, GOVERNANCE_V2_NAME, IMPLEMENTATION_SLOT } from './constants';
+import { findTxSigner, getTxSigner } from './tx-sender';
 import { Artifact } from 'hardhat/types';
-import { signTypedData_v4 } from 'eth-sig-util';
-import { fromRpcSig, ECDSASignature } from 'ethereumjs-util';
 
-export const registerContractInJsonDb = async (contractId: string, contractInstance: Contract) => {
+const formatConstructorArg = (value: any): any =>
+  Array.isArray(value)
+    ? value.map(formatConstructorArg)
+    : BigNumber.isBigNumber(value)
+    ? value.toString()
+    : value;
+
+const getDeploymentRecord = async (
+  contractName: string,
+  contractInstance: Contract
+): Promise<iDeploymentRecord> => {
+  const { deployTransaction } = contractInstance;
+  const receipt = await deployTransaction.wait();
+  const { timestamp } = await DRE.ethers.provider.getBlock(receipt.blockNumber);
+  const artifact = await DRE.artifacts.readArtifact(contractName);
+  const buildInfo = await DRE.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+
+  // CREATE2 deployments pass the creation code to the factory instead of sending it directly
+  const create2Deployment = deployTransaction.to
+    ? new utils.Interface(
+        (await DRE.artifacts.readArtifact(eContractid.Create2Factory)).abi
+      ).decodeFunctionData('deploy', deployTransaction.data)
+    : undefined;
+  const initCode = create2Deployment ? create2Deployment.bytecode : deployTransaction.data;
+
+  // The deployment data is the creation bytecode followed by the abi encoded constructor arguments
+  const constructorArgs = utils.defaultAbiCoder.decode(
+    new utils.Interface(artifact.abi).deploy.inputs,
+    utils.hexDataSlice(initCode, utils.hexDataLength(artifact.bytecode))
+  );
+
+  return {
+    address: contractInstance.address,
+    deployer: deployTransaction.from,
+    contractName,
+    constructorArgs: formatConstructorArg([...constructorArgs]),
+    // A replacement with bumped fees may be the mined transaction
+    txHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    timestamp,
+    gasUsed: receipt.gasUsed.toString(),
+    gasPrice: (receipt.effectiveGasPrice || deployTransaction.gasPrice)?.toString(),
+    compilerVersion: buildInfo?.solcLongVersion,
+    bytecodeHash: utils.keccak256(artifact.bytecode),
+    ...(create2Deployment
+      ? { create2Factory: deployTransaction.to, salt: create2Deployment.salt }
+      : {}),
+  };
+};
+
+/**
+ * Stores the record as the live deployment of `contractId`. A different previous deployment is
+ * appended to the history of the id, which never holds the live address.
+ */
+const writeDeploymentRecord = async (contractId: string, record: iDeploymentRecord) => {
+  const key = `${contractId}.${DRE.network.name}`;
+  const { history = [], ...current }: iDeploymentRecord =
+    (await getDb().get(key).value()) || ({} as iDeploymentRecord);
+
+  await getDb()
+    .set(key, {
+      ...record,
+      history: [
+        ...history,
+        ...(current.address && current.address !== record.address ? [current] : []),
+      ].filter(({ address }) => address !== record.address),
+    })
+    .write();
+};
+
+export const registerContractInJsonDb = async (
+  contractId: string,
+  contractInstance: Contract,
+  contractName: string = contractId
+) => {
   const currentNetwork = DRE.network.name;
+  const record = await getDeploymentRecord(contractName, contractInstance);
+
   if (currentNetwork !== 'hardhat' && currentNetwork !== 'soliditycoverage') {
     console.log(`*** ${contractId} ***\n`);
     console.log(`Network: ${currentNetwork}`);
-    console.log(`tx: ${contractInstance.deployTransaction.hash}`);
-    console.log(`contract address: ${contractInstance.address}`);
-    console.log(`deployer address: ${contractInstance.deployTransaction.from}`);
-    console.log(`gas price: ${contractInstance.deployTransaction.gasPrice}`);
-    console.log(`gas used: ${contractInstance.deployTransaction.gasLimit}`);
+    console.log(`tx: ${record.txHash}`);
+    console.log(`contract address: ${record.address}`);
+    console.log(`deployer address: ${record.deployer}`);
+    console.log(`gas price: ${record.gasPrice}`);
+    console.log(`gas used: ${record.gasUsed}`);
     console.log(`\n******`);
     console.log();
   }
 
-  await getDb()
-    .set(`${contractId}.${currentNetwork}`, {
-      address: contractInstance.address,
-      deployer: contractInstance.deployTransaction.from,
-    })
-    .write();
+  await writeDeploymentRecord(contractId, record);
 };
 
-export const insertContractAddressInDb = async (id: eContractid, address: tEthereumAddress) =>
-  await getDb()
-    .set(`${id}.${DRE.network.name}`, {
-      address,
-    })
-    .write();
+export const insertContractAddressInDb = async (id: eContractid, address: tEthereumAddress) => {
+  const { history = [], ...current }: iDeploymentRecord =
+    (await getDb().get(`${id}.${DRE.network.name}`).value()) || ({} as iDeploymentRecord);
+
+  // Keep what is known about the address if it was already registered under the id
+  const known =
+    current.address === address
+      ? current
+      : [...history].reverse().find((record) => record.address === address);
+
+  await writeDeploymentRecord(id, known || { address });
+};
+
+/**
+ * Flags every record of `address` on the current network as verified on the block explorer
+ */
+export const setDeploymentVerified = async (address: tEthereumAddress) => {
+  const state = getDb().getState() as { [id: string]: { [network: string]: iDeploymentRecord } };
+  const isAddress = (record: { address?: tEthereumAddress }) =>
+    record.address?.toLowerCase() === address.toLowerCase();
+
+  for (const id of Object.keys(state)) {
+    const entry = state[id][DRE.network.name];
+    if (!entry || (!isAddress(entry) && !entry.history?.some(isAddress))) {
+      continue;
+    }
+    const { history, ...current } = entry;
+    await getDb()
+      .set(`${id}.${DRE.network.name}`, {
+        ...(isAddress(current) ? { ...current, verified: true } : current),
+        ...(history
+          ? {
+              history: history.map((record) =>
+                isAddress(record) ? { ...record, verified: true } : record
+              ),
+            }
+          : {}),
+      })
+      .write();
+  }
+};
+
+/**
+ * Returns the deployment record of `address` on the current network, searching every id and history
+ */
+export const findDeploymentRecord = (address: tEthereumAddress): iDeploymentRecord | undefined => {
+  const state = getDb().getState() as { [id: string]: { [network: string]: iDeploymentRecord } };
+  return Object.values(state)
+    .map((entries) => entries[DRE.network.name])
+    .filter((entry) => !!entry)
+    .flatMap(({ history = [], ...current }) => [current, ...history])
+    .find(
+      (record) => record.contractName && record.address?.toLowerCase() === address.toLowerCase()
+    );
+};
 
 export const getEthersSigners = async (): Promise<Signer[]> =>
   await Promise.all(await DRE.ethers.getSigners());
@@ -56,17 +178,93 @@ export const getBlockTimestamp = async (blockNumber?: number): Promise<number> =
 export const decodeAbiNumber = (data: string): number =>
   parseInt(utils.defaultAbiCoder.decode(['uint256'], data).toString());
 
+/**
+ * Returns the bytes32 CREATE2 salt of `salt`, hashing it unless it already is 32 bytes long
+ */
+export const getCreate2Salt = (salt: string) =>
+  utils.isHexString(salt, 32) ? salt : utils.id(salt);
+
+export const predictCreate2Address = (
+  factory: tEthereumAddress,
+  salt: string,
+  initCode: string
+): tEthereumAddress =>
+  utils.getCreate2Address(factory, getCreate2Salt(salt), utils.keccak256(initCode));
+
+/**
+ * Returns the Create2Factory of the DB. On the hardhat network a missing factory is deployed.
+ */
+export const getCreate2Factory = async (signer?: Signer): Promise<Contract> => {
+  const { address } = (await getDb()
+    .get(`${eContractid.Create2Factory}.${DRE.network.name}`)
+    .value()) || { address: undefined };
+
+  if (address && (await DRE.ethers.provider.getCode(address)) !== '0x') {
+    return await DRE.ethers.getContractAt(eContractid.Create2Factory, address, signer);
+  }
+  if (DRE.network.name !== 'hardhat') {
+    throw new Error(
+      `${eContractid.Create2Factory} is not deployed on ${DRE.network.name}, deploy it with deploy-${eContractid.Create2Factory} from a fresh account first`
+    );
+  }
+  return await deployContract(eContractid.Create2Factory, [], '', signer);
+};
+
+/**
+ * Returns the address `contractName` gets when deployed with `args` and `salt` through the Create2Factory
+ */
+export const predictContractAddress = async (
+  contractName: string,
+  args: any[],
+  salt: string,
+  factory?: tEthereumAddress
+): Promise<tEthereumAddress> => {
+  const { data } = (await DRE.ethers.getContractFactory(contractName)).getDeployTransaction(
+    ...args
+  );
+  return predictCreate2Address(
+    factory || (await getCreate2Factory()).address,
+    salt,
+    data as string
+  );
+};
+
+/**
+ * Deploys `contractName` and records it under `contractId`, the contract name and slug by default.
+ * Implementations pass their own id, so they never overwrite the record of their proxy.
+ * With a salt, the factory calls the new contract with `create2Data` in the same transaction.
+ */
 export const deployContract = async <ContractType extends Contract>(
   contractName: string,
   args: any[],
   slug: string = '',
-  signer?: Signer
+  signer?: Signer,
+  salt?: string,
+  contractId: string = `${contractName}${slug ? `-${slug}` : ''}`,
+  create2Data: string = '0x'
 ): Promise<ContractType> => {
-  const contract = (await (
-    await DRE.ethers.getContractFactory(contractName, signer)
-  ).deploy(...args)) as ContractType;
+  const factory = await DRE.ethers.getContractFactory(contractName, await getTxSigner(signer));
+  let contract: ContractType;
+
+  if (!salt && create2Data !== '0x') {
+    throw new Error(`The deployment call of ${contractName} is only sent with a salt`);
+  }
+  if (salt) {
+    const create2Factory = await getCreate2Factory(factory.signer);
+    const { data } = factory.getDeployTransaction(...args);
+    const address = predictCreate2Address(create2Factory.address, salt, data as string);
+    if ((await DRE.ethers.provider.getCode(address)) !== '0x') {
+      throw new Error(`${contractName} is already deployed at ${address} with salt ${salt}`);
+    }
+
+    const deployTransaction = await create2Factory.deploy(getCreate2Salt(salt), data, create2Data);
+    contract = factory.attach(address) as ContractType;
+    utils.defineReadOnly(contract, 'deployTransaction', deployTransaction);
+  } else {
+    contract = (await factory.deploy(...args)) as ContractType;
+  }
 
-  await registerContractInJsonDb(<eContractid>`${contractName}${slug ? `-${slug}` : ''}`, contract);
+  await registerContractInJsonDb(contractId, contract, contractName);
   return contract;
 };
 
@@ -98,6 +296,131 @@ export const getContractFactory =
     )) as ContractType;
   };
 
+type ImmutableReferences = { [id: string]: { start: number; length: number }[] };
+
+const getImmutableReferences = async (artifact: Artifact): Promise<ImmutableReferences> => {
+  const buildInfo = await DRE.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+  return (
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName].evm.deployedBytecode
+      .immutableReferences || {}
+  );
+};
+
+/**
+ * Checks if the code deployed at `address` matches the current artifact of `contractName`.
+ * Immutable variables are zeroed in the artifact, so they are masked out of the on-chain code.
+ */
+export const isDeployedBytecodeUpToDate = async (
+  contractName: string,
+  address: tEthereumAddress
+): Promise<boolean> => {
+  const code = await DRE.ethers.provider.getCode(address);
+  if (code === '0x') {
+    return false;
+  }
+  const artifact = await DRE.artifacts.readArtifact(contractName);
+
+  let maskedCode = code.toLowerCase();
+  for (const references of Object.values(await getImmutableReferences(artifact))) {
+    for (const { start, length } of references) {
+      maskedCode =
+        maskedCode.substr(0, 2 + start * 2) +
+        '0'.repeat(length * 2) +
+        maskedCode.substr(2 + (start + length) * 2);
+    }
+  }
+
+  return maskedCode === artifact.deployedBytecode.toLowerCase();
+};
+
+/**
+ * Returns the contract registered under `id` for the current network, if it can be reused:
+ * it must still have the bytecode of the current `contractName` artifact, and every getter of
+ * `expectedValues` must return the expected value. Returns undefined if it needs to be deployed.
+ */
+export const getReusableDeployment = async <ContractType extends Contract>(
+  id: string,
+  contractName: string,
+  expectedValues: { [getter: string]: string } = {}
+): Promise<ContractType | undefined> => {
+  const address = getDb().get(`${id}.${DRE.network.name}.address`).value();
+  if (!address) {
+    return;
+  }
+  if (!(await isDeployedBytecodeUpToDate(contractName, address))) {
+    console.log(`\t${id} at ${address} does not match the ${contractName} artifact, redeploying`);
+    return;
+  }
+
+  const instance = await getContract<ContractType>(contractName, address);
+  for (const [getter, expected] of Object.entries(expectedValues)) {
+    const value = (await instance[getter]()).toString();
+    if (value.toLowerCase() !== expected.toString().toLowerCase()) {
+      console.log(
+        `\t${id} at ${address} has ${getter} ${value} instead of ${expected}, redeploying`
+      );
+      return;
+    }
+  }
+
+  console.log(`\tReusing ${id} already deployed at ${address}`);
+  return instance;
+};
+
+/**
+ * Returns the calldata of the InitializableAdminUpgradeabilityProxy initialize, which sets
+ * `implementation` with `admin` and calls initialize() on it
+ */
+export const getProxyInitializeData = async (
+  implementation: Contract,
+  admin: tEthereumAddress
+): Promise<string> =>
+  new utils.Interface(
+    (await DRE.artifacts.readArtifact(eContractid.InitializableAdminUpgradeabilityProxy)).abi
+  ).encodeFunctionData('initialize(address,address,bytes)', [
+    implementation.address,
+    admin,
+    implementation.interface.encodeFunctionData('initialize'),
+  ]);
+
+/**
+ * Returns the implementation of an InitializableAdminUpgradeabilityProxy, ZERO_ADDRESS if it is not initialized
+ */
+export const getProxyImplementation = async (proxy: tEthereumAddress): Promise<tEthereumAddress> =>
+  utils.getAddress(
+    utils.hexDataSlice(await DRE.ethers.provider.getStorageAt(proxy, IMPLEMENTATION_SLOT), 12)
+  );
+
+export const getProxyAdmin = async (proxy: tEthereumAddress): Promise<tEthereumAddress> =>
+  utils.getAddress(
+    utils.hexDataSlice(await DRE.ethers.provider.getStorageAt(proxy, ADMIN_SLOT), 12)
+  );
+
+/**
+ * Moves the admin of an InitializableAdminUpgradeabilityProxy and checks the new admin slot
+ */
+export const changeProxyAdmin = async (
+  proxy: tEthereumAddress,
+  newAdmin: tEthereumAddress,
+  signer: Signer
+) => {
+  // Calls from other accounts are forwarded to the implementation instead of reverting
+  const currentAdmin = await getProxyAdmin(proxy);
+  if (currentAdmin !== (await signer.getAddress())) {
+    throw new Error(`Signer is not the admin ${currentAdmin} of proxy ${proxy}`);
+  }
+
+  const instance = await getContract(eContractid.InitializableAdminUpgradeabilityProxy, proxy);
+  await (await instance.connect(signer).changeAdmin(newAdmin)).wait();
+
+  const admin = await getProxyAdmin(proxy);
+  if (admin !== utils.getAddress(newAdmin)) {
+    throw new Error(`Admin slot of proxy ${proxy} holds ${admin} instead of ${newAdmin}`);
+  }
+};
+
 const linkBytecode = (artifact: Artifact, libraries: any) => {
   let bytecode = artifact.bytecode;
 
@@ -124,125 +447,41 @@ const linkBytecode = (artifact: Artifact, libraries: any) => {
 export const getContract = async <ContractType extends Contract>(
   contractName: string,
   address: string
-): Promise<ContractType> => (await DRE.ethers.getContractAt(contractName, address)) as ContractType;
-
-export const buildPermitParams = (
-  chainId: number,
-  psysToken: tEthereumAddress,
-  owner: tEthereumAddress,
-  spender: tEthereumAddress,
-  nonce: number,
-  deadline: string,
-  value: string
-) => ({
-  types: {
-    EIP712Domain: [
-      { name: 'name', type: 'string' },
-      { name: 'version', type: 'string' },
-      { name: 'chainId', type: 'uint256' },
-      { name: 'verifyingContract', type: 'address' },
-    ],
-    Permit: [
-      { name: 'owner', type: 'address' },
-      { name: 'spender', type: 'address' },
-      { name: 'value', type: 'uint256' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'deadline', type: 'uint256' },
-    ],
-  },
-  primaryType: 'Permit' as const,
-  domain: {
-    name: 'Staked PSYS',
-    version: '1',
-    chainId: chainId,
-    verifyingContract: psysToken,
-  },
-  message: {
-    owner,
-    spender,
-    value,
-    nonce,
-    deadline,
-  },
-});
-
-export const buildDelegateByTypeParams = (
-  chainId: number,
-  psysToken: tEthereumAddress,
-  delegatee: tEthereumAddress,
-  type: string,
-  nonce: string,
-  expiry: string
-) => ({
-  types: {
-    EIP712Domain: [
-      { name: 'name', type: 'string' },
-      { name: 'version', type: 'string' },
-      { name: 'chainId', type: 'uint256' },
-      { name: 'verifyingContract', type: 'address' },
-    ],
-    DelegateByType: [
-      { name: 'delegatee', type: 'address' },
-      { name: 'type', type: 'uint256' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'expiry', type: 'uint256' },
-    ],
-  },
-  primaryType: 'DelegateByType' as const,
-  domain: {
-    name: 'Staked PSYS',
-    version: '1',
-    chainId: chainId,
-    verifyingContract: psysToken,
-  },
-  message: {
-    delegatee,
-    type,
-    nonce,
-    expiry,
-  },
-});
+): Promise<ContractType> => {
+  // Read only tasks run without accounts, their contracts connect to the provider
+  const signer = await findTxSigner();
+  return (await DRE.ethers.getContractAt(
+    contractName,
+    address,
+    signer && (await getTxSigner(signer))
+  )) as ContractType;
+};
 
-export const buildDelegateParams = (
+export const buildVoteParams = (
   chainId: number,
-  psysToken: tEthereumAddress,
-  delegatee: tEthereumAddress,
-  nonce: string,
-  expiry: string
+  governance: tEthereumAddress,
+  proposalId: string,
+  support: boolean
 ) => ({
   types: {
     EIP712Domain: [
       { name: 'name', type: 'string' },
-      { name: 'version', type: 'string' },
       { name: 'chainId', type: 'uint256' },
       { name: 'verifyingContract', type: 'address' },
     ],
-    Delegate: [
-      { name: 'delegatee', type: 'address' },
-      { name: 'nonce', type: 'uint256' },
-      { name: 'expiry', type: 'uint256' },
+    VoteEmitted: [
+      { name: 'id', type: 'uint256' },
+      { name: 'support', type: 'bool' },
     ],
   },
-  primaryType: 'Delegate' as const,
+  primaryType: 'VoteEmitted' as const,
   domain: {
-    name: 'Staked PSYS',
-    version: '1',
+    name: GOVERNANCE_V2_NAME,
     chainId: chainId,
-    verifyingContract: psysToken,
+    verifyingContract: governance,
   },
   message: {
-    delegatee,
-    nonce,
-    expiry,
+    id: proposalId,
+    support,
   },
 });
-
-export const getSignatureFromTypedData = (
-  privateKey: string,
-  typedData: any // TODO: should be TypedData, from eth-sig-utils, but TS doesn't accept it
-): ECDSASignature => {
-  const signature = signTypedData_v4(Buffer.from(privateKey.substring(2, 66), 'hex'), {
-    data: typedData,
-  });
-  return fromRpcSig(signature);
-};
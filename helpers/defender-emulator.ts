@@ -0,0 +1,292 @@
+import http from 'http';
+import { AddressInfo, Socket } from 'net';
+import { Signature, Wallet, providers, utils } from 'ethers';
+import {
+  ListTransactionsRequest,
+  Relayer,
+  RelayerGetResponse,
+  RelayerTransaction,
+  RelayerTransactionPayload,
+  SignMessagePayload,
+  SignTypedDataPayload,
+  SignedMessagePayload,
+  JsonRpcResponse,
+} from 'defender-relay-client';
+import { DefenderRelaySigner } from 'defender-relay-client/lib/ethers';
+
+// Defender keeps the transactions valid for 8 hours unless told otherwise
+const DEFAULT_VALID_FOR = 8 * 3600 * 1000;
+
+export interface iDefenderRelayEmulator {
+  url: string;
+  address: string;
+  close: () => Promise<void>;
+}
+
+const readBody = (request: http.IncomingMessage) =>
+  new Promise<any>((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const toSignedMessage = (signature: string | Signature): SignedMessagePayload => {
+  const { r, s, v } = utils.splitSignature(signature);
+  return { sig: utils.joinSignature(signature), r, s, v };
+};
+
+/**
+ * Serves the subset of the Defender relay API the DefenderRelaySigner uses, signing with a local
+ * key against `provider`. Listens on a random port unless `port` is given.
+ */
+export const startDefenderRelayEmulator = async (
+  privateKey: string,
+  provider: providers.JsonRpcProvider,
+  port: number = 0
+): Promise<iDefenderRelayEmulator> => {
+  const wallet = new Wallet(privateKey, provider);
+  const { chainId, name } = await provider.getNetwork();
+  const transactions: RelayerTransaction[] = [];
+
+  const relayer: RelayerGetResponse = {
+    relayerId: 'local-relayer',
+    name: 'Local relay emulator',
+    address: wallet.address,
+    network: name as RelayerGetResponse['network'],
+    paused: false,
+    createdAt: new Date().toISOString(),
+    pendingTxCost: '0',
+    minBalance: '0',
+    policies: {},
+  };
+
+  const send = async (payload: RelayerTransactionPayload, nonce?: number) => {
+    const { to, value, data, gasLimit, validUntil, isPrivate } = payload;
+    const response = await wallet.sendTransaction({
+      to,
+      value,
+      data,
+      gasLimit,
+      nonce,
+      ...('gasPrice' in payload ? { gasPrice: payload.gasPrice } : {}),
+      ...('maxFeePerGas' in payload
+        ? {
+            maxFeePerGas: payload.maxFeePerGas,
+            maxPriorityFeePerGas: payload.maxPriorityFeePerGas,
+          }
+        : {}),
+    });
+    const transaction = {
+      transactionId: `tx-${transactions.length}`,
+      hash: response.hash,
+      to: response.to!,
+      from: response.from,
+      value: response.value.toHexString(),
+      data: response.data,
+      speed: 'speed' in payload ? payload.speed : undefined,
+      gasLimit: response.gasLimit.toNumber(),
+      nonce: response.nonce,
+      status: 'submitted',
+      chainId,
+      validUntil: validUntil || new Date(Date.now() + DEFAULT_VALID_FOR).toISOString(),
+      createdAt: new Date().toISOString(),
+      isPrivate,
+      ...(response.maxFeePerGas
+        ? {
+            maxFeePerGas: response.maxFeePerGas.toNumber(),
+            maxPriorityFeePerGas: response.maxPriorityFeePerGas!.toNumber(),
+          }
+        : { gasPrice: response.gasPrice!.toNumber() }),
+    } as RelayerTransaction;
+    transactions.push(transaction);
+    return transaction;
+  };
+
+  const query = async (id: string) => {
+    const transaction = transactions.find(({ transactionId }) => transactionId === id);
+    if (!transaction) {
+      throw new Error(`Transaction ${id} not found`);
+    }
+    const receipt = await provider.getTransactionReceipt(transaction.hash);
+    if (receipt) {
+      transaction.status = receipt.status ? 'mined' : 'failed';
+    }
+    return transaction;
+  };
+
+  const handle = async (method: string, path: string, body: any) => {
+    const [, resource, id] = path.split('/');
+    switch (`${method} /${resource}${id !== undefined ? '/:id' : ''}`) {
+      case 'GET /relayer':
+        return relayer;
+      case 'POST /relayer/:id': {
+        // JSON-RPC requests of the relay provider, forwarded to the node
+        try {
+          return {
+            jsonrpc: '2.0',
+            id: body.id,
+            result: await provider.send(body.method, body.params),
+          };
+        } catch (error: any) {
+          return {
+            jsonrpc: '2.0',
+            id: body.id,
+            error: { code: error.code ?? -32603, message: error.message, data: error.data },
+          };
+        }
+      }
+      case 'POST /txs':
+        return send(body);
+      case 'PUT /txs/:id': {
+        // Defender replaces by id or by nonce on the same route
+        const replaced = transactions.find(({ transactionId }) => transactionId === id);
+        return send(body, replaced ? replaced.nonce : parseInt(id));
+      }
+      case 'GET /txs/:id':
+        return query(id);
+      case 'GET /txs':
+        return Promise.all(transactions.map(({ transactionId }) => query(transactionId)));
+      case 'POST /sign':
+        return toSignedMessage(await wallet.signMessage(utils.arrayify(body.message)));
+      case 'POST /sign-typed-data':
+        return toSignedMessage(
+          wallet
+            ._signingKey()
+            .signDigest(
+              utils.keccak256(
+                utils.concat(['0x1901', body.domainSeparator, body.hashStructMessage])
+              )
+            )
+        );
+      default:
+        return undefined;
+    }
+  };
+
+  const server = http.createServer(async (request, response) => {
+    let status = 200;
+    let result: any;
+    try {
+      result = await handle(request.method!, request.url!.split('?')[0], await readBody(request));
+      if (result === undefined) {
+        status = 404;
+        result = { message: `${request.method} ${request.url} is not emulated` };
+      }
+    } catch (error: any) {
+      status = 400;
+      result = { message: error.message };
+    }
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(result));
+  });
+  // Clients keep their connections alive, they are dropped on close
+  const sockets = new Set<Socket>();
+  server.on('connection', (socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+  });
+  await new Promise<void>((resolve) => server.listen(port, '127.0.0.1', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    address: wallet.address,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.close(() => resolve());
+        sockets.forEach((socket) => socket.destroy());
+      }),
+  };
+};
+
+/**
+ * Relayer of the emulator. Defender authenticates its relayers through AWS, so the emulated API is
+ * requested directly, without credentials.
+ */
+export class LocalRelayer extends Relayer {
+  readonly url: string;
+
+  constructor(url: string) {
+    super({ apiKey: 'local', apiSecret: 'local' });
+    this.url = url;
+  }
+
+  private request<T>(method: string, path: string, body?: any): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(
+        `${this.url}${path}`,
+        { method, headers: { 'Content-Type': 'application/json' } },
+        (response) => {
+          let data = '';
+          response.on('data', (chunk) => (data += chunk));
+          response.on('end', () => {
+            const result = JSON.parse(data);
+            if (response.statusCode !== 200) {
+              return reject(new Error(`Relay emulator ${method} ${path}: ${result.message}`));
+            }
+            resolve(result);
+          });
+        }
+      );
+      request.on('error', reject);
+      request.end(body !== undefined ? JSON.stringify(body) : undefined);
+    });
+  }
+
+  getRelayer() {
+    return this.request<RelayerGetResponse>('GET', '/relayer');
+  }
+
+  sendTransaction(payload: RelayerTransactionPayload) {
+    return this.request<RelayerTransaction>('POST', '/txs', payload);
+  }
+
+  replaceTransactionById(id: string, payload: RelayerTransactionPayload) {
+    return this.request<RelayerTransaction>('PUT', `/txs/${id}`, payload);
+  }
+
+  replaceTransactionByNonce(nonce: number, payload: RelayerTransactionPayload) {
+    return this.request<RelayerTransaction>('PUT', `/txs/${nonce}`, payload);
+  }
+
+  query(id: string) {
+    return this.request<RelayerTransaction>('GET', `/txs/${id}`);
+  }
+
+  list(criteria?: ListTransactionsRequest) {
+    return this.request<RelayerTransaction[]>('GET', '/txs').then((transactions) =>
+      transactions.filter(({ status }) => !criteria?.status || status === criteria.status)
+    );
+  }
+
+  sign(payload: SignMessagePayload) {
+    return this.request<SignedMessagePayload>('POST', '/sign', payload);
+  }
+
+  signTypedData(payload: SignTypedDataPayload) {
+    return this.request<SignedMessagePayload>('POST', '/sign-typed-data', payload);
+  }
+
+  call(method: string, params: string[]) {
+    return this.request<JsonRpcResponse>('POST', '/relayer/jsonrpc', {
+      jsonrpc: '2.0',
+      id: 1,
+      method,
+      params,
+    });
+  }
+}
+
+/**
+ * Returns a DefenderRelaySigner sending through the emulator at `url`, like the live relay does
+ */
+export const getEmulatedRelaySigner = (url: string) => {
+  const provider = new providers.StaticJsonRpcProvider(`${url}/relayer/jsonrpc`);
+  return new DefenderRelaySigner(new LocalRelayer(url), provider, { speed: 'fast' });
+};
@@ -2,15 +2,23 @@ import { formatEther } from '@ethersproject/units';
 import { DefenderRelaySigner, DefenderRelayProvider } from 'defender-relay-client/lib/ethers';
 import { Signer } from 'ethers';
 import { exit } from 'process';
-import { DRE, impersonateAccountsHardhat } from './misc-utils';
+import { DRE, getForkedNetwork, impersonateAccountsHardhat } from './misc-utils';
+import { isDryRun } from './dry-run';
+import { getEmulatedRelaySigner } from './defender-emulator';
 
 let impersonatedLog = false;
 let balanceLog = false;
 
 export const getDefenderRelaySigner = async () => {
-  const { DEFENDER_API_KEY, DEFENDER_SECRET_KEY } = process.env;
+  const { DEFENDER_API_KEY, DEFENDER_SECRET_KEY, DEFENDER_RELAY_EMULATOR_URL } = process.env;
   let signer: Signer;
 
+  // The emulator already signs against the local node, nothing to impersonate
+  if (DEFENDER_RELAY_EMULATOR_URL) {
+    signer = getEmulatedRelaySigner(DEFENDER_RELAY_EMULATOR_URL);
+    return { signer, address: await signer.getAddress() };
+  }
+
   if (!DEFENDER_API_KEY || !DEFENDER_SECRET_KEY) {
     throw new Error('Defender secrets required');
   }
@@ -23,8 +31,8 @@ export const getDefenderRelaySigner = async () => {
 
   const defenderAddress = await signer.getAddress();
 
-  // Reemplace signer if MAINNET_FORK is active
-  if (process.env.MAINNET_FORK === 'true') {
+  // Reemplace signer if running over a fork or a dry run, so nothing is relayed to the live network
+  if (getForkedNetwork() || isDryRun()) {
     if (!impersonatedLog) {
       console.log('  - Impersonating Defender Relay via Hardhat');
       impersonatedLog = true;
@@ -0,0 +1,186 @@
+import { Contract, utils } from 'ethers';
+import { DRE, getDb } from './misc-utils';
+import { STAKED_PSYS_REVISION } from './constants';
+import { getProxyAdmin, getProxyImplementation } from './contracts-helpers';
+import { getERC20Contract, getStakedPSYSImpl } from './contracts-accessors';
+import {
+  eContractid,
+  iDeploymentCheck,
+  iDeploymentRecord,
+  iStakeDeploymentManifest,
+  tEthereumAddress,
+} from './types';
+
+const EIP712_DOMAIN = utils.id(
+  'EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)'
+);
+const EIP712_REVISION = '1';
+const EMISSION_MANAGER_ABI = ['function EMISSION_MANAGER() view returns (address)'];
+
+const compare = (description: string, expected: string, actual: string): iDeploymentCheck => ({
+  description,
+  expected,
+  actual,
+  ok: expected.toLowerCase() === actual.toLowerCase(),
+});
+
+const getImplementationRecords = (): iDeploymentRecord[] => {
+  const { history = [], ...current }: iDeploymentRecord =
+    getDb().get(`${eContractid.StakedPSYSImpl}.${DRE.network.name}`).value() || {};
+  return current.address ? [current, ...history] : history;
+};
+
+/**
+ * Reads the proxy slots and the StakedPSYSV3 state behind `proxyAddress`, and compares them with
+ * the manifest of the network.
+ */
+export const checkStakedPSYSDeployment = async (
+  proxyAddress: tEthereumAddress,
+  manifest: iStakeDeploymentManifest,
+  {
+    revision = STAKED_PSYS_REVISION,
+    minAllowance,
+    checkAllowance = true,
+  }: { revision?: string; minAllowance?: string; checkAllowance?: boolean } = {}
+): Promise<iDeploymentCheck[]> => {
+  const provider = DRE.ethers.provider;
+  const checks: iDeploymentCheck[] = [];
+
+  checks.push(compare('Proxy admin', manifest.proxyAdmin, await getProxyAdmin(proxyAddress)));
+
+  // The recorded implementation is the expected one, its past versions only help to date it
+  const implementation = await getProxyImplementation(proxyAddress);
+  const [recordedImplementation, ...pastImplementations] = getImplementationRecords();
+  const implementationRecord = [recordedImplementation, ...pastImplementations].find(
+    (record) => record?.address.toLowerCase() === implementation.toLowerCase()
+  );
+  checks.push({
+    description: 'Proxy implementation',
+    expected: recordedImplementation?.address || 'a deployed contract',
+    actual: implementation,
+    ok:
+      (await provider.getCode(implementation)) !== '0x' &&
+      (!recordedImplementation ||
+        recordedImplementation.address.toLowerCase() === implementation.toLowerCase()),
+  });
+
+  // Calls are sent without a signer, as the proxy rejects the ones coming from its admin
+  const stakedPSYS = (await getStakedPSYSImpl(proxyAddress)).connect(provider);
+
+  checks.push(compare('REVISION', revision, (await stakedPSYS.REVISION()).toString()));
+  checks.push(compare('STAKED_TOKEN', manifest.stakedToken, await stakedPSYS.STAKED_TOKEN()));
+  checks.push(compare('REWARD_TOKEN', manifest.rewardToken, await stakedPSYS.REWARD_TOKEN()));
+  checks.push(
+    compare(
+      'COOLDOWN_SECONDS',
+      manifest.cooldownSeconds,
+      (await stakedPSYS.COOLDOWN_SECONDS()).toString()
+    )
+  );
+  checks.push(
+    compare(
+      'UNSTAKE_WINDOW',
+      manifest.unstakeWindow,
+      (await stakedPSYS.UNSTAKE_WINDOW()).toString()
+    )
+  );
+  checks.push(compare('REWARDS_VAULT', manifest.rewardsVault, await stakedPSYS.REWARDS_VAULT()));
+  checks.push(
+    compare('EMISSION_MANAGER', manifest.emissionManager, await stakedPSYS.EMISSION_MANAGER())
+  );
+
+  // DISTRIBUTION_END is fixed at the implementation deployment, only known if it was recorded
+  const distributionEnd = (await stakedPSYS.DISTRIBUTION_END()).toString();
+  if (implementationRecord?.timestamp) {
+    checks.push(
+      compare(
+        'DISTRIBUTION_END',
+        (implementationRecord.timestamp + Number(manifest.distributionDuration)).toString(),
+        distributionEnd
+      )
+    );
+  } else {
+    const { timestamp } = await provider.getBlock('latest');
+    checks.push({
+      description: 'DISTRIBUTION_END',
+      expected: `after ${timestamp}, the implementation deployment is not recorded`,
+      actual: distributionEnd,
+      ok: Number(distributionEnd) > timestamp,
+    });
+  }
+
+  const { chainId } = await provider.getNetwork();
+  const domainSeparator = utils.keccak256(
+    utils.defaultAbiCoder.encode(
+      ['bytes32', 'bytes32', 'bytes32', 'uint256', 'address'],
+      [
+        EIP712_DOMAIN,
+        utils.id(await stakedPSYS.name()),
+        utils.id(EIP712_REVISION),
+        chainId,
+        proxyAddress,
+      ]
+    )
+  );
+  checks.push(compare('DOMAIN_SEPARATOR', domainSeparator, await stakedPSYS.DOMAIN_SEPARATOR()));
+
+  if (checkAllowance) {
+    const allowance = await (await getERC20Contract(manifest.rewardToken))
+      .connect(provider)
+      .allowance(manifest.rewardsVault, proxyAddress);
+    checks.push({
+      description: 'Rewards vault allowance to the proxy',
+      expected: minAllowance ? `at least ${minAllowance}` : 'non zero',
+      actual: allowance.toString(),
+      ok: minAllowance ? allowance.gte(minAllowance) : !allowance.isZero(),
+    });
+  }
+
+  return checks;
+};
+
+/**
+ * Compares the admin of each proxy and the EMISSION_MANAGER behind it with the expected holders,
+ * and flags the roles still held by EOAs
+ */
+export const checkPrivilegedRoles = async (
+  proxies: { [id: string]: tEthereumAddress },
+  { admin, emissionManager }: { admin: tEthereumAddress; emissionManager: tEthereumAddress }
+): Promise<iDeploymentCheck[]> => {
+  const provider = DRE.ethers.provider;
+  const checks: iDeploymentCheck[] = [];
+
+  for (const [id, proxy] of Object.entries(proxies)) {
+    // EMISSION_MANAGER is an immutable of the implementation, it only changes with an upgrade
+    const roles: [string, tEthereumAddress, tEthereumAddress][] = [
+      [`${id} proxy admin`, admin, await getProxyAdmin(proxy)],
+      [
+        `${id} EMISSION_MANAGER`,
+        emissionManager,
+        await new Contract(proxy, EMISSION_MANAGER_ABI, provider).EMISSION_MANAGER(),
+      ],
+    ];
+
+    for (const [description, expected, actual] of roles) {
+      const holder = (await provider.getCode(actual)) === '0x' ? 'an EOA' : 'a contract';
+      checks.push(compare(description, expected, actual));
+      checks.push({
+        description: `${description} held by a contract`,
+        expected: 'a contract',
+        actual: holder,
+        ok: holder === 'a contract',
+      });
+    }
+  }
+
+  return checks;
+};
+
+export const printDeploymentChecks = (checks: iDeploymentCheck[]) =>
+  checks.forEach(({ description, ok, expected, actual }) =>
+    console.log(
+      `\t${ok ? '✔️' : '✖'} ${description}${
+        actual === undefined ? '' : ok ? `: ${actual}` : `: expected ${expected}, got ${actual}`
+      }`
+    )
+  );
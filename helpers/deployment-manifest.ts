@@ -0,0 +1,131 @@
+import { BigNumber, utils } from 'ethers';
+import { getNetworkConfig } from './network-registry';
+import { eEthereumNetwork, iStakeDeploymentManifest, tEthereumAddress } from './types';
+import { ZERO_ADDRESS } from './constants';
+
+const MAX_UINT_128 = BigNumber.from(2).pow(128).sub(1);
+
+// Governance is allowed to be the zero address, as it only disables the transfer hook
+const NON_ZERO_ADDRESS_FIELDS: (keyof iStakeDeploymentManifest)[] = [
+  'stakedToken',
+  'rewardToken',
+  'rewardsVault',
+  'emissionManager',
+  'proxyAdmin',
+];
+const ADDRESS_FIELDS: (keyof iStakeDeploymentManifest)[] = [
+  ...NON_ZERO_ADDRESS_FIELDS,
+  'governance',
+];
+const DURATION_FIELDS: (keyof iStakeDeploymentManifest)[] = [
+  'cooldownSeconds',
+  'unstakeWindow',
+  'distributionDuration',
+];
+
+/**
+ * Returns the list of problems found in the `fields` of a manifest, empty if they are valid
+ */
+export const getStakeDeploymentManifestErrors = (
+  manifest: Partial<iStakeDeploymentManifest>,
+  fields: (keyof iStakeDeploymentManifest)[] = [...ADDRESS_FIELDS, ...DURATION_FIELDS]
+): string[] => {
+  const errors: string[] = [];
+
+  for (const field of ADDRESS_FIELDS.filter((field) => fields.includes(field))) {
+    const value = manifest[field];
+    if (value === undefined) {
+      errors.push(`${field}: not configured for the network, pass it by param`);
+    } else if (!utils.isAddress(value)) {
+      errors.push(`${field}: "${value}" is not a valid address`);
+    } else if (NON_ZERO_ADDRESS_FIELDS.includes(field) && value === ZERO_ADDRESS) {
+      errors.push(`${field}: can not be the zero address`);
+    }
+  }
+
+  for (const field of DURATION_FIELDS.filter((field) => fields.includes(field))) {
+    const value = manifest[field];
+    if (value === undefined) {
+      errors.push(`${field}: not configured for the network`);
+    } else if (!/^\d+$/.test(value)) {
+      errors.push(`${field}: "${value}" is not an amount of seconds`);
+    } else if (BigNumber.from(value).isZero()) {
+      errors.push(`${field}: can not be zero`);
+    }
+  }
+
+  if (
+    fields.includes('distributionDuration') &&
+    manifest.distributionDuration &&
+    /^\d+$/.test(manifest.distributionDuration) &&
+    BigNumber.from(manifest.distributionDuration).gt(MAX_UINT_128)
+  ) {
+    errors.push('distributionDuration: does not fit in an uint128');
+  }
+
+  return errors;
+};
+
+export const validateStakeDeploymentManifest = <
+  K extends keyof iStakeDeploymentManifest = keyof iStakeDeploymentManifest
+>(
+  manifest: Partial<iStakeDeploymentManifest>,
+  network: eEthereumNetwork,
+  fields?: K[]
+) => {
+  const errors = getStakeDeploymentManifestErrors(manifest, fields);
+  if (errors.length) {
+    throw new Error(
+      `Invalid deployment manifest for ${network} network:\n\t- ${errors.join('\n\t- ')}`
+    );
+  }
+  // Checksummed, so they compare equal to the addresses of the signers and of the chain
+  const addresses = ADDRESS_FIELDS.filter((field) => utils.isAddress(manifest[field] || '')).map(
+    (field) => [field, utils.getAddress(manifest[field] as string)]
+  );
+  return { ...manifest, ...Object.fromEntries(addresses) } as Pick<iStakeDeploymentManifest, K>;
+};
+
+/**
+ * Returns the validated manifest of the network, after applying the non-empty overrides. Tasks
+ * using only some of the fields validate those alone.
+ */
+export const getStakeDeploymentManifest = <
+  K extends keyof iStakeDeploymentManifest = keyof iStakeDeploymentManifest
+>(
+  network: eEthereumNetwork,
+  overrides: Partial<iStakeDeploymentManifest> = {},
+  fields?: K[]
+): Pick<iStakeDeploymentManifest, K> => {
+  const definedOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined && value !== '')
+  );
+
+  return validateStakeDeploymentManifest(
+    { ...getNetworkConfig(network).stake, ...definedOverrides },
+    network,
+    fields
+  );
+};
+
+export const getStakedPSYSV3ConstructorArgs = (
+  manifest: iStakeDeploymentManifest
+): [
+  tEthereumAddress,
+  tEthereumAddress,
+  string,
+  string,
+  tEthereumAddress,
+  tEthereumAddress,
+  string,
+  string
+] => [
+  manifest.stakedToken,
+  manifest.rewardToken,
+  manifest.cooldownSeconds,
+  manifest.unstakeWindow,
+  manifest.rewardsVault,
+  manifest.emissionManager,
+  manifest.distributionDuration,
+  manifest.governance,
+];
@@ -0,0 +1,190 @@
+import { BigNumber, utils } from 'ethers';
+import { DRE, getDb, getTargetNetwork } from './misc-utils';
+import { ZERO_ADDRESS } from './constants';
+import { getProxyAdmin, getProxyImplementation } from './contracts-helpers';
+import { getERC20Contract, getStakedPSYSImpl } from './contracts-accessors';
+import {
+  eContractid,
+  iContractReport,
+  iDeploymentRecord,
+  iDeploymentReport,
+  iStakingParametersReport,
+  tEthereumAddress,
+} from './types';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const toDays = (seconds: BigNumber) => (seconds.toNumber() / SECONDS_PER_DAY).toFixed(4);
+
+const getDeploymentRecords = (): [string, iDeploymentRecord][] => {
+  const state = getDb().getState() as { [id: string]: { [network: string]: iDeploymentRecord } };
+  return Object.keys(state)
+    .sort()
+    .map((id): [string, iDeploymentRecord] => [id, state[id][DRE.network.name]])
+    .filter(([, record]) => !!record?.address);
+};
+
+const getNamedConstructorArgs = async ({ contractName, constructorArgs }: iDeploymentRecord) => {
+  if (!constructorArgs || !contractName || !(await DRE.artifacts.artifactExists(contractName))) {
+    return undefined;
+  }
+  const { inputs } = new utils.Interface((await DRE.artifacts.readArtifact(contractName)).abi)
+    .deploy;
+  return constructorArgs.reduce(
+    (args, value, i) => ({ ...args, [inputs[i]?.name || `arg${i}`]: value }),
+    {} as { [name: string]: any }
+  );
+};
+
+const getContractReport = async (
+  id: string,
+  record: iDeploymentRecord,
+  labels: { [address: string]: string }
+): Promise<iContractReport> => {
+  // Contracts that are not proxies have the EIP-1967 slots empty
+  const implementation = await getProxyImplementation(record.address);
+  const proxyAdmin = await getProxyAdmin(record.address);
+
+  return {
+    id,
+    contractName: record.contractName,
+    address: record.address,
+    implementation:
+      implementation === ZERO_ADDRESS
+        ? undefined
+        : labels[implementation.toLowerCase()]
+        ? `${labels[implementation.toLowerCase()]} (${implementation})`
+        : implementation,
+    proxyAdmin: proxyAdmin === ZERO_ADDRESS ? undefined : proxyAdmin,
+    constructorArgs: await getNamedConstructorArgs(record),
+    verified: record.verified,
+    gasUsed: record.gasUsed,
+    gasCost:
+      record.gasUsed && record.gasPrice
+        ? utils.formatEther(BigNumber.from(record.gasUsed).mul(record.gasPrice))
+        : undefined,
+  };
+};
+
+const getStakingParametersReport = async (
+  proxy: tEthereumAddress
+): Promise<iStakingParametersReport> => {
+  // Calls are sent without a signer, as the proxy rejects the ones coming from its admin
+  const stakedPSYS = (await getStakedPSYSImpl(proxy)).connect(DRE.ethers.provider);
+  const rewardToken = await stakedPSYS.REWARD_TOKEN();
+  const { emissionPerSecond } = await stakedPSYS.assets(proxy);
+  const symbol = await (await getERC20Contract(rewardToken)).connect(DRE.ethers.provider).symbol();
+
+  return {
+    proxy,
+    stakedToken: await stakedPSYS.STAKED_TOKEN(),
+    rewardToken,
+    rewardsVault: await stakedPSYS.REWARDS_VAULT(),
+    emissionManager: await stakedPSYS.EMISSION_MANAGER(),
+    cooldownDays: toDays(await stakedPSYS.COOLDOWN_SECONDS()),
+    unstakeWindowDays: toDays(await stakedPSYS.UNSTAKE_WINDOW()),
+    emissionPerDay: `${utils.formatEther(emissionPerSecond.mul(SECONDS_PER_DAY))} ${symbol}`,
+    distributionEnd: new Date(
+      (await stakedPSYS.DISTRIBUTION_END()).toNumber() * 1000
+    ).toISOString(),
+  };
+};
+
+/**
+ * Reports every contract of the DB on the current network with its live proxy slots, and the
+ * parameters of the StakedPSYSV3 proxy. Contracts are sorted by id so reports of different
+ * networks diff line by line.
+ */
+export const getDeploymentReport = async (): Promise<iDeploymentReport> => {
+  const records = getDeploymentRecords();
+  const labels = records.reduce(
+    (acc, [id, { address }]) => ({ ...acc, [address.toLowerCase()]: id }),
+    {} as { [address: string]: string }
+  );
+
+  const contracts: iContractReport[] = [];
+  for (const [id, record] of records) {
+    contracts.push(await getContractReport(id, record, labels));
+  }
+
+  const stakedPSYS = records.find(([id]) => id === eContractid.StakedPSYSV3)?.[1];
+  const totalGasCost = contracts.reduce(
+    (total, { gasCost }) => (gasCost ? total.add(utils.parseEther(gasCost)) : total),
+    BigNumber.from(0)
+  );
+
+  return {
+    network: getTargetNetwork(),
+    chainId: (await DRE.ethers.provider.getNetwork()).chainId,
+    contracts,
+    totalGasCost: utils.formatEther(totalGasCost),
+    staking:
+      stakedPSYS && (await DRE.ethers.provider.getCode(stakedPSYS.address)) !== '0x'
+        ? await getStakingParametersReport(stakedPSYS.address)
+        : undefined,
+  };
+};
+
+const formatVerified = (verified?: boolean) =>
+  verified === undefined ? 'unknown' : verified ? 'yes' : 'no';
+
+export const formatDeploymentReport = (report: iDeploymentReport): string => {
+  const { network, chainId, contracts, totalGasCost, staking } = report;
+  const lines = [
+    `# Deployment report: ${network} (chain ${chainId})`,
+    '',
+    '## Contracts',
+    '',
+    '| Id | Contract | Address | Implementation | Proxy admin | Verified | Gas used | Cost |',
+    '| --- | --- | --- | --- | --- | --- | --- | --- |',
+    ...contracts.map(
+      (contract) =>
+        `| ${[
+          contract.id,
+          contract.contractName || '-',
+          contract.address,
+          contract.implementation || '-',
+          contract.proxyAdmin || '-',
+          formatVerified(contract.verified),
+          contract.gasUsed || '-',
+          contract.gasCost || '-',
+        ].join(' | ')} |`
+    ),
+    '',
+    `Total deployment cost: ${totalGasCost}`,
+    '',
+    '## Constructor arguments',
+    '',
+  ];
+
+  contracts
+    .filter(({ constructorArgs }) => constructorArgs && Object.keys(constructorArgs).length)
+    .forEach(({ id, constructorArgs }) => {
+      lines.push(`### ${id}`, '');
+      Object.entries(constructorArgs!).forEach(([name, value]) =>
+        lines.push(`- ${name}: \`${JSON.stringify(value)}\``)
+      );
+      lines.push('');
+    });
+
+  if (staking) {
+    lines.push(
+      `## Staking parameters`,
+      '',
+      '| Parameter | Value |',
+      '| --- | --- |',
+      `| Proxy | ${staking.proxy} |`,
+      `| Staked token | ${staking.stakedToken} |`,
+      `| Reward token | ${staking.rewardToken} |`,
+      `| Rewards vault | ${staking.rewardsVault} |`,
+      `| Emission manager | ${staking.emissionManager} |`,
+      `| Cooldown | ${staking.cooldownDays} days |`,
+      `| Unstake window | ${staking.unstakeWindowDays} days |`,
+      `| Emission | ${staking.emissionPerDay} per day |`,
+      `| Distribution end | ${staking.distributionEnd} |`,
+      ''
+    );
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BigNumber, utils } from 'ethers';
+import { DEFAULT_DB_PATH, DRE, getDb, getTargetNetwork, setDbPath } from './misc-utils';
+import { printDeploymentChecks } from './deployment-checks';
+import { getTxSigner } from './tx-sender';
+import { eEthereumNetwork, iDeploymentCheck, tEthereumAddress } from './types';
+
+interface iDryRunSession {
+  network: eEthereumNetwork;
+  deployer: tEthereumAddress;
+  startNonce: number;
+  startBlock: number;
+  dbPath: string;
+  failed: boolean;
+  checks: (() => Promise<iDeploymentCheck[]>)[];
+}
+
+let session: iDryRunSession | undefined;
+
+export const isDryRun = () => !!session;
+
+const startDryRun = async (): Promise<iDryRunSession> => {
+  if (DRE.network.name !== eEthereumNetwork.hardhat) {
+    throw new Error(
+      `Dry runs only execute on the in-process hardhat network. Use "--network hardhat", and set FORK=<network> to simulate over the live state.`
+    );
+  }
+  const network = getTargetNetwork();
+
+  // Simulated contracts are recorded in a copy of the deployments db, with the forked network entries
+  // exposed under the hardhat key so the tasks can reuse the live contracts
+  const state = getDb().getState() as { [id: string]: { [network: string]: any } };
+  const simulatedState = Object.keys(state).reduce((acc, id) => {
+    const { [network]: forkedEntry, ...entries } = state[id];
+    acc[id] =
+      network !== eEthereumNetwork.hardhat
+        ? { ...entries, ...(forkedEntry ? { [eEthereumNetwork.hardhat]: forkedEntry } : {}) }
+        : state[id];
+    return acc;
+  }, {} as typeof state);
+  const dbPath = path.join(
+    fs.mkdtempSync(path.join(os.tmpdir(), 'dry-run-')),
+    'deployed-contracts.json'
+  );
+  fs.writeFileSync(dbPath, JSON.stringify(simulatedState, null, 2));
+  setDbPath(dbPath);
+
+  const deployerAddress = await (await getTxSigner()).getAddress();
+
+  console.log(`\n- Dry run of ${network} on the ${DRE.network.name} network`);
+  console.log(`\tDeployer: ${deployerAddress}`);
+
+  return {
+    network,
+    deployer: deployerAddress,
+    startNonce: await DRE.ethers.provider.getTransactionCount(deployerAddress),
+    startBlock: await DRE.ethers.provider.getBlockNumber(),
+    dbPath,
+    failed: false,
+    checks: [],
+  };
+};
+
+const getContractLabel = (address: tEthereumAddress) => {
+  const state = getDb().getState() as {
+    [id: string]: { [network: string]: { address: tEthereumAddress } };
+  };
+  const id = Object.keys(state).find(
+    (id) => state[id][eEthereumNetwork.hardhat]?.address?.toLowerCase() === address.toLowerCase()
+  );
+  return id ? `${id} (${address})` : address;
+};
+
+const reportDryRun = async (
+  { network, deployer, startNonce, startBlock, dbPath, failed, checks }: iDryRunSession,
+  gasPrice?: string
+) => {
+  const provider = DRE.ethers.provider;
+  const price = gasPrice ? utils.parseUnits(gasPrice, 'gwei') : await provider.getGasPrice();
+  const latestBlock = await provider.getBlockNumber();
+
+  console.log(`\n- Dry run report for ${network}`);
+  console.log(`\tDeployer ${deployer}, starting nonce ${startNonce}`);
+  console.log(`\tGas price ${utils.formatUnits(price, 'gwei')} gwei`);
+  console.log('\n- Transactions');
+
+  let totalGas = BigNumber.from(0);
+  const createdContracts: tEthereumAddress[] = [];
+  for (let blockNumber = startBlock + 1; blockNumber <= latestBlock; blockNumber++) {
+    const { transactions } = await provider.getBlockWithTransactions(blockNumber);
+    for (const tx of transactions) {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      totalGas = totalGas.add(receipt.gasUsed);
+
+      let description: string;
+      if (!tx.to) {
+        // Same derivation the live network applies, so it holds while the deployer nonce is unchanged
+        const predictedAddress = utils.getContractAddress({ from: tx.from, nonce: tx.nonce });
+        createdContracts.push(predictedAddress);
+        description = `deploy ${getContractLabel(predictedAddress)}`;
+      } else {
+        description = `call ${tx.data.slice(0, 10)} on ${getContractLabel(tx.to)}`;
+      }
+      console.log(
+        `\t[nonce ${tx.nonce}] ${description}: ${receipt.gasUsed.toString()} gas${
+          receipt.status === 0 ? ' (reverted)' : ''
+        }`
+      );
+    }
+  }
+
+  console.log(
+    `\n- Total: ${totalGas.toString()} gas, ${utils.formatEther(totalGas.mul(price))} native tokens`
+  );
+
+  const results: iDeploymentCheck[] = [];
+  for (const address of createdContracts) {
+    results.push({
+      description: `${getContractLabel(address)} has code`,
+      ok: (await provider.getCode(address)) !== '0x',
+    });
+  }
+  for (const check of checks) {
+    try {
+      results.push(...(await check()));
+    } catch (error) {
+      results.push({
+        description: `State checks could not run: ${
+          error instanceof Error ? error.message : error
+        }`,
+        ok: false,
+      });
+    }
+  }
+
+  console.log('\n- State checks');
+  printDeploymentChecks(results);
+
+  const success = !failed && results.every(({ ok }) => ok);
+  console.log(
+    `\n${success ? '✔️ Dry run succeeded' : '✖ Dry run failed'}, nothing was signed on ${network}.`
+  );
+  console.log(`\tSimulated deployments recorded at ${dbPath}`);
+  if (!success) {
+    process.exitCode = 1;
+  }
+};
+
+/**
+ * Runs the action as is, or, with dryRun enabled, simulates it on the hardhat network and reports
+ * the transactions it sent, their cost and the state checks. Nested dry runs join the outer report.
+ */
+export const withDryRun = async <T>(
+  dryRun: boolean,
+  gasPrice: string | undefined,
+  action: () => Promise<T>,
+  checks?: () => Promise<iDeploymentCheck[]>
+): Promise<T | undefined> => {
+  if (!dryRun && !session) {
+    return action();
+  }
+  if (session) {
+    if (checks) {
+      session.checks.push(checks);
+    }
+    return action();
+  }
+
+  session = await startDryRun();
+  if (checks) {
+    session.checks.push(checks);
+  }
+  try {
+    return await action();
+  } catch (error) {
+    console.error(
+      `\n✖ The simulated sequence failed: ${error instanceof Error ? error.message : error}`
+    );
+    session.failed = true;
+  } finally {
+    // The deployments db is restored even if the report itself fails
+    try {
+      await reportDryRun(session, gasPrice);
+    } finally {
+      session = undefined;
+      setDbPath(DEFAULT_DB_PATH);
+    }
+  }
+};
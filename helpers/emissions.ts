@@ -0,0 +1,138 @@
+import { BigNumber, Contract, utils } from 'ethers';
+import { DRE } from './misc-utils';
+import { getERC20Contract } from './contracts-accessors';
+import { iAssetEmissionPlan, tEthereumAddress } from './types';
+import { getNormalizedDistribution } from './ray-math';
+
+export const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+const MAX_UINT_128 = BigNumber.from(2).pow(128).sub(1);
+const PROJECTION_HORIZONS: [string, number][] = [
+  ['1 day', 24 * 60 * 60],
+  ['30 days', 30 * 24 * 60 * 60],
+];
+
+const DISTRIBUTION_MANAGER_ABI = [
+  'function DISTRIBUTION_END() view returns (uint256)',
+  'function EMISSION_MANAGER() view returns (address)',
+  'function PRECISION() view returns (uint8)',
+  'function assets(address) view returns (uint128 emissionPerSecond, uint128 lastUpdateTimestamp, uint256 index)',
+  // Named fields, as the input of getConfigureAssetsInput is passed as objects
+  'function configureAssets((uint128 emissionPerSecond, uint256 totalStaked, address underlyingAsset)[] assetsConfigInput)',
+];
+
+export const getDistributionManager = (address: tEthereumAddress) =>
+  new Contract(address, DISTRIBUTION_MANAGER_ABI, DRE.ethers.provider);
+
+/**
+ * Emission giving `apr` percent a year to the stakers, for rewards of the same value as the stake
+ */
+export const getEmissionPerSecondForApr = (totalStaked: BigNumber, apr: string): BigNumber =>
+  totalStaked
+    .mul(utils.parseUnits(apr, 2))
+    .div(100 * 100)
+    .div(SECONDS_PER_YEAR);
+
+/**
+ * Splits `budget` among the assets proportionally to their stake, so they get the same APR
+ */
+export const getEmissionsPerSecondForBudget = (
+  totalsStaked: BigNumber[],
+  budget: BigNumber,
+  duration: number
+): BigNumber[] => {
+  const total = totalsStaked.reduce((sum, staked) => sum.add(staked), BigNumber.from(0));
+  return totalsStaked.map((staked) =>
+    (total.isZero() ? budget.div(totalsStaked.length) : budget.mul(staked).div(total)).div(duration)
+  );
+};
+
+/**
+ * Computes the emission of every asset of `distributionManager` from a target APR in percent or
+ * a budget in wei over the time left until DISTRIBUTION_END, and projects the asset indexes
+ */
+export const getEmissionsPlan = async (
+  distributionManager: Contract,
+  assets: tEthereumAddress[],
+  { apr, budget }: { apr?: string; budget?: string }
+): Promise<iAssetEmissionPlan[]> => {
+  if (!apr === !budget) {
+    throw new Error('Pass either a target APR or a budget');
+  }
+
+  const { timestamp } = await DRE.ethers.provider.getBlock('latest');
+  const distributionEnd = (await distributionManager.DISTRIBUTION_END()).toNumber();
+  const precision = await distributionManager.PRECISION();
+  if (distributionEnd <= timestamp) {
+    throw new Error(`The distribution ended at ${distributionEnd}`);
+  }
+
+  const totalsStaked: BigNumber[] = [];
+  for (const asset of assets) {
+    totalsStaked.push(
+      await (await getERC20Contract(asset)).connect(DRE.ethers.provider).totalSupply()
+    );
+  }
+  const emissionsPerSecond = apr
+    ? totalsStaked.map((staked) => getEmissionPerSecondForApr(staked, apr))
+    : getEmissionsPerSecondForBudget(
+        totalsStaked,
+        BigNumber.from(budget),
+        distributionEnd - timestamp
+      );
+
+  const plan: iAssetEmissionPlan[] = [];
+  for (const [i, underlyingAsset] of assets.entries()) {
+    const totalStaked = totalsStaked[i].toString();
+    const emissionPerSecond = emissionsPerSecond[i];
+    if (emissionPerSecond.gt(MAX_UINT_128)) {
+      throw new Error(`Emission per second of ${underlyingAsset} does not fit in uint128`);
+    }
+
+    // configureAssets first accrues the index with the emission being replaced
+    const current = await distributionManager.assets(underlyingAsset);
+    const index = getNormalizedDistribution(
+      totalStaked,
+      current.index.toString(),
+      current.emissionPerSecond.toString(),
+      current.lastUpdateTimestamp.toString(),
+      timestamp,
+      distributionEnd,
+      precision
+    );
+    const projectIndex = (until: number) =>
+      getNormalizedDistribution(
+        totalStaked,
+        index,
+        emissionPerSecond.toString(),
+        timestamp,
+        until,
+        distributionEnd,
+        precision
+      ).toFixed();
+
+    plan.push({
+      underlyingAsset,
+      totalStaked,
+      currentEmissionPerSecond: current.emissionPerSecond.toString(),
+      emissionPerSecond: emissionPerSecond.toString(),
+      index: index.toFixed(),
+      projectedIndexes: [
+        ...PROJECTION_HORIZONS.map(([label, seconds]): [string, string] => [
+          `in ${label}`,
+          projectIndex(timestamp + seconds),
+        ]),
+        ['at DISTRIBUTION_END', projectIndex(distributionEnd)],
+      ],
+    });
+  }
+
+  return plan;
+};
+
+export const getConfigureAssetsInput = (plan: iAssetEmissionPlan[]) =>
+  plan.map(({ emissionPerSecond, totalStaked, underlyingAsset }) => ({
+    emissionPerSecond,
+    totalStaked,
+    underlyingAsset,
+  }));
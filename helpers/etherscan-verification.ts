@@ -2,6 +2,9 @@ import { exit } from 'process';
 import fs from 'fs';
 import { file } from 'tmp-promise';
 import { DRE } from './misc-utils';
+import { setDeploymentVerified } from './contracts-helpers';
+import { NetworkRegistry } from './network-registry';
+import { eEthereumNetwork } from './types';
 
 const fatalErrors = [
   `The address provided as argument contains a contract, but its bytecode`,
@@ -14,7 +17,9 @@ const okErrors = [`Contract source code already verified`];
 
 const unableVerifyError = 'Fail - Unable to verify';
 
-export const SUPPORTED_ETHERSCAN_NETWORKS = ['main', 'ropsten', 'kovan', 'goerli'];
+export const SUPPORTED_ETHERSCAN_NETWORKS = Object.keys(NetworkRegistry).filter(
+  (network) => NetworkRegistry[network as eEthereumNetwork]?.explorer
+);
 
 function delay(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -56,7 +61,9 @@ export const verifyContract = async (
       constructorArgs: path,
       relatedSources: true,
     };
-    await runTaskWithRetry('verify', params, times, msDelay, cleanup);
+    if (await runTaskWithRetry('verify', params, times, msDelay, cleanup)) {
+      await setDeploymentVerified(address);
+    }
   } catch (error) {}
 };
 
@@ -66,7 +73,7 @@ export const runTaskWithRetry = async (
   times: number,
   msDelay: number,
   cleanup: () => void
-) => {
+): Promise<boolean> => {
   let counter = times;
   await delay(msDelay);
 
@@ -74,23 +81,26 @@ export const runTaskWithRetry = async (
     if (times > 1) {
       await DRE.run(task, params);
       cleanup();
+      return true;
     } else if (times === 1) {
       console.log('[ETHERSCAN][WARNING] Trying to verify via uploading all sources.');
       delete params.relatedSources;
       await DRE.run(task, params);
       cleanup();
+      return true;
     } else {
       cleanup();
       console.error(
         '[ETHERSCAN][ERROR] Errors after all the retries, check the logs for more information.'
       );
+      return false;
     }
   } catch (error) {
     counter--;
 
     if (okErrors.some((okReason) => error.message.includes(okReason))) {
       console.info('[ETHERSCAN][INFO] Skipping due OK response: ', error.message);
-      return;
+      return true;
     }
 
     if (fatalErrors.some((fatalError) => error.message.includes(fatalError))) {
@@ -98,7 +108,7 @@ export const runTaskWithRetry = async (
         '[ETHERSCAN][ERROR] Fatal error detected, skip retries and resume deployment.',
         error.message
       );
-      return;
+      return false;
     }
     console.error('[ETHERSCAN][ERROR]', error.message);
     console.log();
@@ -107,7 +117,7 @@ export const runTaskWithRetry = async (
       console.log('[ETHERSCAN][WARNING] Trying to verify via uploading all sources.');
       delete params.relatedSources;
     }
-    await runTaskWithRetry(task, params, counter, msDelay, cleanup);
+    return runTaskWithRetry(task, params, counter, msDelay, cleanup);
   }
 };
 
@@ -0,0 +1,249 @@
+import { BigNumber, BigNumberish, Contract, Overrides, Signer, utils } from 'ethers';
+import { DRE, getTargetNetwork } from './misc-utils';
+import { getContract, getProxyAdmin } from './contracts-helpers';
+import { getDistributionManager } from './emissions';
+import { getNetworkConfig } from './network-registry';
+import { getIpfsBytes32 } from './proposal-metadata';
+import {
+  eContractid,
+  eExecutor,
+  iProposalAction,
+  iProposalPayload,
+  tEthereumAddress,
+} from './types';
+
+// Fully qualified, the proposal contracts declare their own IPegasysDistributionManager
+const IControllerPegasysEcosystemReserve = `contracts/interfaces/IControllerPegasysEcosystemReserve.sol:${eContractid.IControllerPegasysEcosystemReserve}`;
+const InitializableAdminUpgradeabilityProxy = `contracts/lib/InitializableAdminUpgradeabilityProxy.sol:${eContractid.InitializableAdminUpgradeabilityProxy}`;
+const IPegasysDistributionManager = `contracts/interfaces/IPegasysDistributionManager.sol:${eContractid.IPegasysDistributionManager}`;
+const IPegasysGovernanceV2 = `contracts/interfaces/IPegasysGovernanceV2.sol:${eContractid.IPegasysGovernanceV2}`;
+
+/**
+ * Encodes a call of `method` on `target` against the ABI of the `contractName` artifact, so a
+ * missing function or mistyped argument fails before anything is proposed. Names declared by several
+ * sources must be fully qualified.
+ */
+export const buildCallAction = async (
+  contractName: string,
+  target: tEthereumAddress,
+  method: string,
+  args: any[],
+  {
+    value = '0',
+    withDelegatecall = false,
+    executor,
+    description,
+  }: {
+    value?: BigNumberish;
+    withDelegatecall?: boolean;
+    executor?: tEthereumAddress;
+    description?: string;
+  } = {}
+): Promise<iProposalAction> => {
+  if (!utils.isAddress(target)) {
+    throw new Error(`Invalid target ${target} for ${contractName}.${method}`);
+  }
+  const name = contractName.split(':').pop();
+  const contractInterface = new utils.Interface(
+    (await DRE.artifacts.readArtifact(contractName)).abi
+  );
+
+  let fragment: utils.FunctionFragment;
+  let data: string;
+  try {
+    fragment = contractInterface.getFunction(method);
+    data = contractInterface.encodeFunctionData(fragment, args);
+  } catch (error) {
+    throw new Error(
+      `Invalid action ${name}.${method}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  return {
+    target: utils.getAddress(target),
+    value: BigNumber.from(value).toString(),
+    signature: fragment.format(),
+    calldata: utils.hexDataSlice(data, 4),
+    withDelegatecall,
+    description: description || `${name}.${fragment.name} on ${target}`,
+    executor,
+  };
+};
+
+export const buildUpgradeAction = async (
+  proxy: tEthereumAddress,
+  implementation: tEthereumAddress,
+  initializeData: string = '0x'
+) =>
+  buildCallAction(
+    InitializableAdminUpgradeabilityProxy,
+    proxy,
+    'upgradeToAndCall',
+    [implementation, initializeData],
+    {
+      executor: await getProxyAdmin(proxy),
+      description: `Upgrade ${proxy} to ${implementation}`,
+    }
+  );
+
+export const buildChangeAdminAction = async (proxy: tEthereumAddress, newAdmin: tEthereumAddress) =>
+  buildCallAction(InitializableAdminUpgradeabilityProxy, proxy, 'changeAdmin', [newAdmin], {
+    executor: await getProxyAdmin(proxy),
+    description: `Move the admin of ${proxy} to ${newAdmin}`,
+  });
+
+export const buildVaultApprovalAction = async (
+  vaultController: tEthereumAddress,
+  token: tEthereumAddress,
+  spender: tEthereumAddress,
+  amount: BigNumberish
+) =>
+  buildCallAction(
+    IControllerPegasysEcosystemReserve,
+    vaultController,
+    'approve',
+    [token, spender, amount],
+    { description: `Approve ${amount.toString()} of ${token} from the vault to ${spender}` }
+  );
+
+export const buildConfigureAssetsAction = async (
+  distributionManager: tEthereumAddress,
+  assetsConfigInput: { emissionPerSecond: string; totalStaked: string; underlyingAsset: string }[]
+) =>
+  buildCallAction(
+    IPegasysDistributionManager,
+    distributionManager,
+    'configureAssets',
+    [assetsConfigInput],
+    {
+      executor: await getDistributionManager(distributionManager).EMISSION_MANAGER(),
+      description: `Configure the emissions of ${assetsConfigInput.length} assets on ${distributionManager}`,
+    }
+  );
+
+/**
+ * Returns the executor of the actions: the one they require, or else the short or long executor of
+ * the network. An executor passed by address overrides the network configuration.
+ */
+export const getProposalExecutor = (
+  actions: iProposalAction[],
+  executor?: eExecutor | tEthereumAddress
+): tEthereumAddress => {
+  const { governance } = getNetworkConfig(getTargetNetwork());
+  const required = [
+    ...new Set(
+      actions.filter((action) => action.executor).map(({ executor }) => utils.getAddress(executor!))
+    ),
+  ];
+  if (required.length > 1) {
+    const executors = required.join(', ');
+    throw new Error(
+      `The actions require different executors (${executors}), split them into separate proposals`
+    );
+  }
+
+  let selected: tEthereumAddress | undefined;
+  if (executor === eExecutor.short || executor === eExecutor.long) {
+    selected = governance?.[`${executor}Executor` as const];
+    if (!selected) {
+      throw new Error(`The ${executor} executor is not configured for ${getTargetNetwork()}`);
+    }
+  } else {
+    selected = executor;
+  }
+
+  if (selected && required.length && selected.toLowerCase() !== required[0].toLowerCase()) {
+    throw new Error(`The actions can only be executed by ${required[0]}, not ${selected}`);
+  }
+  const resolved = selected || required[0] || governance?.shortExecutor;
+  if (!resolved) {
+    throw new Error(`No executor configured for ${getTargetNetwork()}, pass it by param`);
+  }
+  return resolved;
+};
+
+export const buildProposalPayload = (
+  actions: iProposalAction[],
+  executor?: eExecutor | tEthereumAddress
+): iProposalPayload => {
+  if (!actions.length) {
+    throw new Error('A proposal needs at least one action');
+  }
+  return {
+    executor: getProposalExecutor(actions, executor),
+    targets: actions.map(({ target }) => target),
+    values: actions.map(({ value }) => value),
+    signatures: actions.map(({ signature }) => signature),
+    calldatas: actions.map(({ calldata }) => calldata),
+    withDelegatecalls: actions.map(({ withDelegatecall }) => withDelegatecall),
+  };
+};
+
+export const getGovernance = async (address?: tEthereumAddress): Promise<Contract> => {
+  const governance = address || getNetworkConfig(getTargetNetwork()).governance?.governance;
+  if (!governance) {
+    throw new Error(`Governance is not configured for ${getTargetNetwork()}, pass it by param`);
+  }
+  return getContract(IPegasysGovernanceV2, governance);
+};
+
+// Targets without code would make the execution revert once the vote passed
+const checkProposalTargets = async (payload: iProposalPayload) => {
+  for (const target of payload.targets) {
+    if ((await DRE.ethers.provider.getCode(target)) === '0x') {
+      throw new Error(`Proposal target ${target} has no code on ${DRE.network.name}`);
+    }
+  }
+};
+
+const getCreateArgs = (payload: iProposalPayload, ipfsHash: string) => [
+  payload.executor,
+  payload.targets,
+  payload.values,
+  payload.signatures,
+  payload.calldatas,
+  payload.withDelegatecalls,
+  getIpfsBytes32(ipfsHash),
+];
+
+/**
+ * Creates the proposal on governance and returns its id. The ipfs hash may be a CIDv0 or its bytes32.
+ */
+export const submitProposal = async (
+  payload: iProposalPayload,
+  ipfsHash: string,
+  proposer: Signer,
+  governanceAddress?: tEthereumAddress,
+  overrides: Overrides = {}
+): Promise<BigNumber> => {
+  const governance = (await getGovernance(governanceAddress)).connect(proposer);
+  await checkProposalTargets(payload);
+
+  const proposalId = await governance.getProposalsCount();
+  const tx = await governance.create(...getCreateArgs(payload, ipfsHash), overrides);
+  await tx.wait();
+  return proposalId;
+};
+
+/**
+ * The create() call of the proposal, to be signed elsewhere instead of submitted
+ */
+export const encodeProposalCreation = async (
+  payload: iProposalPayload,
+  ipfsHash: string,
+  governanceAddress?: tEthereumAddress
+) => {
+  const governance = await getGovernance(governanceAddress);
+  await checkProposalTargets(payload);
+  return {
+    to: governance.address,
+    data: governance.interface.encodeFunctionData('create', getCreateArgs(payload, ipfsHash)),
+  };
+};
+
+export const printProposalActions = (actions: iProposalAction[], payload: iProposalPayload) => {
+  console.log(`\tExecutor: ${payload.executor}`);
+  actions.forEach(({ description, signature }, i) =>
+    console.log(`\t${i + 1}. ${description}: ${signature}`)
+  );
+};
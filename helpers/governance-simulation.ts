@@ -0,0 +1,180 @@
+import { BigNumber, BigNumberish, Signer, constants } from 'ethers';
+import { DRE, advanceBlockTo, increaseTimeAndMine, latestBlock } from './misc-utils';
+import {
+  SIMULATION_GRACE_PERIOD,
+  SIMULATION_LONG_DELAY,
+  SIMULATION_SHORT_DELAY,
+  SIMULATION_VOTING_DURATION,
+  ZERO_ADDRESS,
+} from './constants';
+import { deployExecutorMock, deployGovernanceMock, getGovernanceMock } from './contracts-accessors';
+import { submitProposal } from './governance-proposal';
+import { printDeploymentChecks } from './deployment-checks';
+import { getTxSigner } from './tx-sender';
+import {
+  eEthereumNetwork,
+  eProposalState,
+  iDeploymentCheck,
+  iGovernanceConfig,
+  iGovernanceSimulationConfig,
+  iProposalPayload,
+  iProposalSimulation,
+  tEthereumAddress,
+} from './types';
+
+const DEFAULT_SIMULATION_CONFIG: iGovernanceSimulationConfig = {
+  votingToken: ZERO_ADDRESS,
+  votingDelay: '0',
+  votingDuration: SIMULATION_VOTING_DURATION,
+  shortDelay: SIMULATION_SHORT_DELAY,
+  longDelay: SIMULATION_LONG_DELAY,
+  gracePeriod: SIMULATION_GRACE_PERIOD,
+};
+
+const assertHardhatNetwork = () => {
+  if (DRE.network.name !== eEthereumNetwork.hardhat) {
+    throw new Error(
+      `Governance simulations only run on the hardhat network, not ${DRE.network.name}`
+    );
+  }
+};
+
+/**
+ * Deploys a governance stand-in with a short and a long executor. The executors only accept
+ * actions queued by the governance, so they can take the roles of the live ones in the tests.
+ */
+export const deployGovernanceSimulation = async (
+  config: Partial<iGovernanceSimulationConfig> = {},
+  signer?: Signer
+): Promise<iGovernanceConfig> => {
+  assertHardhatNetwork();
+  const { votingToken, votingDelay, votingDuration, shortDelay, longDelay, gracePeriod } = {
+    ...DEFAULT_SIMULATION_CONFIG,
+    ...config,
+  };
+
+  const governance = await deployGovernanceMock([votingToken, votingDelay, votingDuration], signer);
+  const shortExecutor = await deployExecutorMock(
+    [governance.address, shortDelay, gracePeriod],
+    'short',
+    signer
+  );
+  const longExecutor = await deployExecutorMock(
+    [governance.address, longDelay, gracePeriod],
+    'long',
+    signer
+  );
+
+  return {
+    governance: governance.address,
+    shortExecutor: shortExecutor.address,
+    longExecutor: longExecutor.address,
+  };
+};
+
+const getProposalState = async (governanceAddress: tEthereumAddress, proposalId: BigNumberish) =>
+  (await (
+    await getGovernanceMock({ address: governanceAddress })
+  ).getProposalState(proposalId)) as eProposalState;
+
+const assertProposalState = async (
+  governanceAddress: tEthereumAddress,
+  proposalId: BigNumberish,
+  expected: eProposalState
+) => {
+  const state = await getProposalState(governanceAddress, proposalId);
+  if (state !== expected) {
+    throw new Error(
+      `Proposal ${proposalId.toString()} is ${eProposalState[state]}, expected ${
+        eProposalState[expected]
+      }`
+    );
+  }
+};
+
+/**
+ * Takes a proposal created on the governance stand-in through voting, queueing and execution,
+ * fast-forwarding the blocks and time each phase waits for. Every voter votes in favour.
+ */
+export const simulateProposal = async (
+  governanceAddress: tEthereumAddress,
+  proposalId: BigNumberish,
+  voters: Signer[]
+): Promise<Omit<iProposalSimulation, 'checks'>> => {
+  assertHardhatNetwork();
+  const governance = await getGovernanceMock({ address: governanceAddress });
+  const proposal = await governance.getProposalById(proposalId);
+  const { startBlock, endBlock } = proposal;
+  // Read by position, as the `values` key collides with Array.prototype.values in ethers results
+  const values: BigNumber[] = proposal[4];
+
+  // Votes are accepted from the block after the start block
+  if ((await latestBlock()) <= startBlock.toNumber()) {
+    await advanceBlockTo(startBlock.toNumber() + 1);
+  }
+  for (const voter of voters) {
+    await assertProposalState(governanceAddress, proposalId, eProposalState.Active);
+    await (await governance.connect(voter).submitVote(proposalId, true)).wait();
+  }
+
+  // The outcome is final from the block after the end block
+  if ((await latestBlock()) <= endBlock.toNumber()) {
+    await advanceBlockTo(endBlock.toNumber() + 1);
+  }
+  await assertProposalState(governanceAddress, proposalId, eProposalState.Succeeded);
+  await (await governance.queue(proposalId)).wait();
+
+  const { executionTime } = await governance.getProposalById(proposalId);
+  const { timestamp } = await DRE.ethers.provider.getBlock('latest');
+  if (timestamp < executionTime.toNumber()) {
+    await increaseTimeAndMine(executionTime.toNumber() - timestamp);
+  }
+  await assertProposalState(governanceAddress, proposalId, eProposalState.Queued);
+
+  const tx = await governance.execute(proposalId, {
+    value: values.reduce(
+      (total: BigNumber, value: BigNumber) => total.add(value),
+      BigNumber.from(0)
+    ),
+  });
+  const { transactionHash, gasUsed } = await tx.wait();
+  await assertProposalState(governanceAddress, proposalId, eProposalState.Executed);
+
+  return {
+    proposalId: proposalId.toString(),
+    executionTime: executionTime.toNumber(),
+    executionTxHash: transactionHash,
+    gasUsed: gasUsed.toString(),
+  };
+};
+
+/**
+ * Submits the payload to the governance stand-in, runs it through the whole lifecycle and then
+ * the `checks` over the resulting state. The proposer votes unless `voters` are given.
+ */
+export const simulateProposalPayload = async (
+  governanceAddress: tEthereumAddress,
+  payload: iProposalPayload,
+  {
+    proposer,
+    voters,
+    ipfsHash = constants.HashZero,
+    checks = async () => [],
+  }: {
+    proposer?: Signer;
+    voters?: Signer[];
+    ipfsHash?: string;
+    checks?: () => Promise<iDeploymentCheck[]>;
+  } = {}
+): Promise<iProposalSimulation> => {
+  const signer = proposer || (await getTxSigner());
+  const proposalId = await submitProposal(payload, ipfsHash, signer, governanceAddress);
+  console.log(`\n- Simulating proposal ${proposalId.toString()} on the governance stand-in`);
+
+  const simulation = await simulateProposal(governanceAddress, proposalId, voters || [signer]);
+  console.log(`\tExecuted by ${simulation.executionTxHash}, gas used ${simulation.gasUsed}`);
+
+  const results = await checks();
+  printDeploymentChecks(results);
+  return { ...simulation, checks: results };
+};
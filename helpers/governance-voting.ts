@@ -0,0 +1,153 @@
+import { Signer, VoidSigner, utils } from 'ethers';
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { DRE, getDb, latestBlock } from './misc-utils';
+import { buildVoteParams } from './contracts-helpers';
+import { getStakedPSYSV3 } from './contracts-accessors';
+import { getGovernance } from './governance-proposal';
+import { findTxSigner } from './tx-sender';
+import {
+  eContractid,
+  eDelegationType,
+  eProposalState,
+  iProposalVoteStatus,
+  iVoteSignature,
+  tEthereumAddress,
+} from './types';
+
+/**
+ * Signs an EIP-712 vote without sending it, for submitVoteBySignature. Signs with the selected
+ * signer by default.
+ */
+export const signVote = async (
+  governance: tEthereumAddress,
+  proposalId: string,
+  support: boolean,
+  signer?: Signer
+): Promise<iVoteSignature> => {
+  const voter = (signer || (await findTxSigner())) as Signer & TypedDataSigner;
+  if (!voter) {
+    throw new Error(`No account configured for ${DRE.network.name}, set PRIVATE_KEY or --signer`);
+  }
+  if (voter instanceof VoidSigner) {
+    throw new Error(
+      `${voter.address} is watch-only, sign the vote with a keystore, mnemonic, private key or defender signer`
+    );
+  }
+  // The config leaves the chainId out on networks like localhost, the provider always knows it
+  const { chainId } = await DRE.ethers.provider.getNetwork();
+  const {
+    domain,
+    types: { VoteEmitted },
+    message,
+  } = buildVoteParams(chainId, governance, proposalId, support);
+  const { v, r, s } = utils.splitSignature(
+    await voter._signTypedData(domain, { VoteEmitted }, message)
+  );
+  return {
+    governance: utils.getAddress(governance),
+    chainId,
+    proposalId,
+    support,
+    voter: await voter.getAddress(),
+    v,
+    r,
+    s,
+  };
+};
+
+export const recoverVoter = ({
+  governance,
+  chainId,
+  proposalId,
+  support,
+  v,
+  r,
+  s,
+}: iVoteSignature) => {
+  const {
+    domain,
+    types: { VoteEmitted },
+    message,
+  } = buildVoteParams(chainId, governance, proposalId, support);
+  return utils.verifyTypedData(domain, { VoteEmitted }, message, { v, r, s });
+};
+
+export const getProposalVoteStatus = async (
+  governanceAddress: tEthereumAddress | undefined,
+  proposalId: string,
+  voter: tEthereumAddress,
+  stakedPSYS?: tEthereumAddress
+): Promise<iProposalVoteStatus> => {
+  const governance = await getGovernance(governanceAddress);
+  const { startBlock, endBlock, forVotes, againstVotes } = await governance.getProposalById(
+    proposalId
+  );
+  const vote = await governance.getVoteOnProposal(proposalId, voter);
+
+  // Calls are sent without a signer, as the proxy rejects the ones coming from its admin
+  const stkPSYSAddress =
+    stakedPSYS || getDb().get(`${eContractid.StakedPSYSV3}.${DRE.network.name}.address`).value();
+  const votingPower =
+    stkPSYSAddress && (await latestBlock()) >= startBlock.toNumber()
+      ? await (await getStakedPSYSV3({ address: stkPSYSAddress }))
+          .connect(DRE.ethers.provider)
+          .getPowerAtBlock(voter, startBlock, eDelegationType.VotingPower)
+      : undefined;
+
+  return {
+    proposalId,
+    state: await governance.getProposalState(proposalId),
+    startBlock: startBlock.toNumber(),
+    endBlock: endBlock.toNumber(),
+    forVotes: forVotes.toString(),
+    againstVotes: againstVotes.toString(),
+    voter: utils.getAddress(voter),
+    votingPower: votingPower?.toString(),
+    vote: vote.votingPower.isZero()
+      ? undefined
+      : { support: vote.support, votingPower: vote.votingPower.toString() },
+  };
+};
+
+/**
+ * Returns why the voter can't vote on the proposal, if anything prevents it
+ */
+export const getVoteRejection = ({ proposalId, state, voter, vote }: iProposalVoteStatus) => {
+  if (state !== eProposalState.Active) {
+    return `Proposal ${proposalId} is ${eProposalState[state]}, votes are only accepted while Active`;
+  }
+  if (vote) {
+    return `${voter} already voted ${vote.support ? 'for' : 'against'} proposal ${proposalId}`;
+  }
+};
+
+/**
+ * Submits the signed votes through `relayer`, skipping the ones governance would reject
+ */
+export const relayVoteSignatures = async (signatures: iVoteSignature[], relayer: Signer) => {
+  const relayed: { signature: iVoteSignature; txHash: string }[] = [];
+  const skipped: { signature: iVoteSignature; reason: string }[] = [];
+  const network = await DRE.ethers.provider.getNetwork();
+
+  for (const signature of signatures) {
+    const { governance, chainId, proposalId, support, voter, v, r, s } = signature;
+    let reason: string | undefined;
+    if (chainId !== network.chainId) {
+      reason = `signed for chain ${chainId}, not ${network.chainId}`;
+    } else if (recoverVoter(signature).toLowerCase() !== voter.toLowerCase()) {
+      reason = `the signature is not from ${voter}`;
+    } else {
+      reason = getVoteRejection(await getProposalVoteStatus(governance, proposalId, voter));
+    }
+    if (reason) {
+      skipped.push({ signature, reason });
+      continue;
+    }
+
+    const tx = await (await getGovernance(governance))
+      .connect(relayer)
+      .submitVoteBySignature(proposalId, support, v, r, s);
+    relayed.push({ signature, txHash: (await tx.wait()).transactionHash });
+  }
+  return { relayed, skipped };
+};
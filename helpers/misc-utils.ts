@@ -12,7 +12,15 @@ export const toWad = (value: string | number) => new BigNumber(value).times(WAD)
 
 export const stringToBigNumber = (amount: string): BigNumber => new BigNumber(amount);
 
-export const getDb = () => low(new FileSync('./deployed-contracts.json'));
+export const DEFAULT_DB_PATH = './deployed-contracts.json';
+
+let dbPath = DEFAULT_DB_PATH;
+
+export const getDb = () => low(new FileSync(dbPath));
+
+export const setDbPath = (path: string) => {
+  dbPath = path;
+};
 
 export let DRE: HardhatRuntimeEnvironment = {} as HardhatRuntimeEnvironment;
 
@@ -21,19 +29,35 @@ export const setDRE = (_DRE: HardhatRuntimeEnvironment) => {
 };
 
 export const getParamPerNetwork = <T>(
-  { main, hardhat }: iParamsPerNetwork<T>,
+  params: iParamsPerNetwork<T>,
   network: eEthereumNetwork
-) => {
-  switch (network) {
-    case eEthereumNetwork.hardhat:
-      return hardhat;
-    case eEthereumNetwork.main:
-      return main;
-    default:
-      return main;
+): T => {
+  const param = params[network];
+  if (param === undefined) {
+    throw new Error(`Parameter not configured for network "${network}"`);
   }
+  return param;
 };
 
+/**
+ * Returns the network whose state the hardhat network is forking, if any
+ */
+export const getForkedNetwork = (): eEthereumNetwork | undefined => {
+  if (process.env.FORK) {
+    return process.env.FORK as eEthereumNetwork;
+  }
+  if (process.env.MAINNET_FORK === 'true') {
+    return eEthereumNetwork.main;
+  }
+};
+
+/**
+ * Returns the network whose parameters apply: the forked one while running over a fork
+ */
+export const getTargetNetwork = (): eEthereumNetwork =>
+  (DRE.network.name === eEthereumNetwork.hardhat && getForkedNetwork()) ||
+  (DRE.network.name as eEthereumNetwork);
+
 export const sleep = (milliseconds: number) => {
   return new Promise((resolve) => setTimeout(resolve, milliseconds));
 };
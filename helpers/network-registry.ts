@@ -0,0 +1,120 @@
+import { eEthereumNetwork, iNetworkConfig, iParamsPerNetwork } from './types';
+import {
+  COOLDOWN_SECONDS,
+  DISTRIBUTION_DURATION,
+  LONG_EXECUTOR,
+  PSYS_GOVERNANCE_V2,
+  PSYS_TOKEN,
+  REWARDS_VAULT,
+  SHORT_EXECUTOR,
+  UNSTAKE_WINDOW,
+  ZERO_ADDRESS,
+} from './constants';
+
+// Short periods, so testnet deployments can be exercised end to end
+const TESTNET_STAKE_PERIODS = {
+  cooldownSeconds: '3600', // 1h
+  unstakeWindow: '1800', // 30m
+  distributionDuration: '2592000', // 30d
+};
+
+/**
+ * Networks the stake is deployed to. Addresses are only set where they are known, as a
+ * missing parameter fails the deployment instead of falling back to another network.
+ */
+export const NetworkRegistry: iParamsPerNetwork<iNetworkConfig> = {
+  [eEthereumNetwork.hardhat]: {
+    chainId: 31337,
+    stake: {
+      cooldownSeconds: COOLDOWN_SECONDS,
+      unstakeWindow: UNSTAKE_WINDOW,
+      distributionDuration: DISTRIBUTION_DURATION,
+      governance: ZERO_ADDRESS,
+    },
+  },
+  [eEthereumNetwork.main]: {
+    chainId: 570,
+    rpcEnvVar: 'ROLLUX_RPC_URL',
+    rpcUrl: 'https://rpc.rollux.com',
+    explorer: {
+      apiURL: 'https://explorer.rollux.com/api',
+      browserURL: 'https://explorer.rollux.com/',
+    },
+    stake: {
+      stakedToken: PSYS_TOKEN,
+      rewardToken: PSYS_TOKEN,
+      cooldownSeconds: '864000', // 10d
+      unstakeWindow: '172800', // 2d
+      rewardsVault: REWARDS_VAULT,
+      emissionManager: LONG_EXECUTOR, // Executor used for Emission management
+      distributionDuration: '12960000', // 5 months (30 days) in seconds
+      governance: PSYS_GOVERNANCE_V2,
+      proxyAdmin: LONG_EXECUTOR,
+    },
+    governance: {
+      governance: PSYS_GOVERNANCE_V2,
+      shortExecutor: SHORT_EXECUTOR,
+      longExecutor: LONG_EXECUTOR,
+    },
+  },
+  [eEthereumNetwork.rolluxTestnet]: {
+    chainId: 57000,
+    rpcEnvVar: 'ROLLUX_TESTNET_RPC_URL',
+    rpcUrl: 'https://rpc-tanenbaum.rollux.com',
+    explorer: {
+      apiURL: 'https://rollux.tanenbaum.io/api',
+      browserURL: 'https://rollux.tanenbaum.io/',
+    },
+    stake: { ...TESTNET_STAKE_PERIODS, governance: ZERO_ADDRESS },
+  },
+  [eEthereumNetwork.syscoin]: {
+    chainId: 57,
+    rpcEnvVar: 'SYSCOIN_RPC_URL',
+    rpcUrl: 'https://rpc.syscoin.org',
+    explorer: {
+      apiURL: 'https://explorer.syscoin.org/api',
+      browserURL: 'https://explorer.syscoin.org/',
+    },
+    stake: {
+      cooldownSeconds: '864000', // 10d
+      unstakeWindow: '172800', // 2d
+      distributionDuration: '12960000', // 5 months (30 days) in seconds
+    },
+  },
+  [eEthereumNetwork.tanenbaum]: {
+    chainId: 5700,
+    rpcEnvVar: 'TANENBAUM_RPC_URL',
+    rpcUrl: 'https://rpc.tanenbaum.io',
+    explorer: {
+      apiURL: 'https://tanenbaum.io/api',
+      browserURL: 'https://tanenbaum.io/',
+    },
+    stake: { ...TESTNET_STAKE_PERIODS, governance: ZERO_ADDRESS },
+  },
+  [eEthereumNetwork.goerli]: {
+    chainId: 5,
+    rpcEnvVar: 'GOERLI_RPC_URL',
+    explorer: {
+      apiURL: 'https://api-goerli.etherscan.io/api',
+      browserURL: 'https://goerli.etherscan.io/',
+    },
+    stake: { ...TESTNET_STAKE_PERIODS, governance: ZERO_ADDRESS },
+  },
+};
+
+export const getNetworkConfig = (network: string): iNetworkConfig => {
+  const config = NetworkRegistry[network as eEthereumNetwork];
+  if (!config) {
+    throw new Error(
+      `Network "${network}" is not registered, use one of: ${Object.keys(NetworkRegistry).join(
+        ', '
+      )}`
+    );
+  }
+  return config;
+};
+
+export const getNetworkRpcUrl = (network: string): string | undefined => {
+  const { rpcEnvVar, rpcUrl } = getNetworkConfig(network);
+  return (rpcEnvVar && process.env[rpcEnvVar]) || rpcUrl;
+};
@@ -0,0 +1,228 @@
+import fs from 'fs';
+import { BigNumber, BigNumberish, Signer, Transaction, providers, utils } from 'ethers';
+import { DRE, getTargetNetwork } from './misc-utils';
+import { decodeProposalPayload } from './proposal-decoder';
+import { getTransactionFees } from './tx-sender';
+import { iOfflineTransaction, iTransactionIntent, tEthereumAddress } from './types';
+
+// Margin over the estimated gas, the state may change before the signed transaction is sent
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+export interface iOfflineCall {
+  from: tEthereumAddress;
+  to: tEthereumAddress;
+  data: string;
+  value?: BigNumberish;
+  description: string;
+}
+
+const decodeIntent = async ({
+  from,
+  to,
+  data,
+  value = '0',
+  description,
+}: iOfflineCall): Promise<iTransactionIntent> => {
+  // Decoded as a single action proposal, so the intent reads like the proposal inspector output
+  const {
+    executor,
+    actions: [{ targetLabel, call, warnings }],
+  } = await decodeProposalPayload({
+    executor: from,
+    targets: [to],
+    values: [BigNumber.from(value).toString()],
+    signatures: [''],
+    calldatas: [data],
+    withDelegatecalls: [false],
+  });
+  return { description, fromLabel: executor, targetLabel, call, warnings };
+};
+
+/**
+ * Populates the calls into transactions to sign offline: nonces follow each other per sender,
+ * from the pending nonce of the network
+ */
+export const buildOfflineTransactions = async (
+  calls: iOfflineCall[]
+): Promise<iOfflineTransaction[]> => {
+  const provider = DRE.ethers.provider;
+  const { chainId } = await provider.getNetwork();
+  const fees = await getTransactionFees();
+  const nonces: { [from: string]: number } = {};
+
+  const transactions: iOfflineTransaction[] = [];
+  for (const call of calls) {
+    const from = utils.getAddress(call.from);
+    nonces[from] = nonces[from] ?? (await provider.getTransactionCount(from, 'pending'));
+    const value = BigNumber.from(call.value || 0);
+    const gasLimit = (await provider.estimateGas({ from, to: call.to, data: call.data, value }))
+      .mul(100 + GAS_LIMIT_MARGIN_PERCENT)
+      .div(100);
+
+    transactions.push({
+      network: getTargetNetwork(),
+      chainId,
+      from,
+      to: utils.getAddress(call.to),
+      value: value.toString(),
+      data: call.data,
+      nonce: nonces[from]++,
+      gasLimit: gasLimit.toString(),
+      ...fees,
+      intent: await decodeIntent(call),
+    });
+  }
+  return transactions;
+};
+
+export const printOfflineTransactions = (transactions: iOfflineTransaction[]) =>
+  transactions.forEach(({ from, nonce, chainId, intent, signedTransaction }) => {
+    console.log(`\t[${from} nonce ${nonce}, chain ${chainId}] ${intent.description}`);
+    console.log(`\t\t${intent.targetLabel}: ${intent.call}`);
+    intent.warnings.forEach((warning) => console.log(`\t\t! ${warning}`));
+    console.log(`\t\t${signedTransaction ? 'Signed' : 'Unsigned'}`);
+  });
+
+export const readOfflineTransactions = (file: string): iOfflineTransaction[] =>
+  JSON.parse(fs.readFileSync(file, 'utf8'));
+
+export const writeOfflineTransactions = (file: string, transactions: iOfflineTransaction[]) => {
+  fs.writeFileSync(file, JSON.stringify(transactions, null, 2));
+  printOfflineTransactions(transactions);
+  console.log(`\t${transactions.length} transactions written to ${file}`);
+};
+
+const toTransactionRequest = ({
+  chainId,
+  to,
+  value,
+  data,
+  nonce,
+  gasLimit,
+  gasPrice,
+  maxFeePerGas,
+  maxPriorityFeePerGas,
+}: iOfflineTransaction): providers.TransactionRequest => ({
+  chainId,
+  to,
+  value,
+  data,
+  nonce,
+  gasLimit,
+  ...(maxFeePerGas ? { type: 2, maxFeePerGas, maxPriorityFeePerGas } : { type: 0, gasPrice }),
+});
+
+/**
+ * Signs the transactions sent from the signer, without any network access. The others are left
+ * for their own keys.
+ */
+export const signOfflineTransactions = async (
+  transactions: iOfflineTransaction[],
+  signer: Signer
+): Promise<iOfflineTransaction[]> => {
+  const address = await signer.getAddress();
+  const signed: iOfflineTransaction[] = [];
+  for (const transaction of transactions) {
+    signed.push(
+      transaction.from === address
+        ? {
+            ...transaction,
+            signedTransaction: await signer.signTransaction(toTransactionRequest(transaction)),
+          }
+        : transaction
+    );
+  }
+  return signed;
+};
+
+/**
+ * Returns why the signed transaction doesn't match the exported fields or its intent, if anything
+ */
+export const verifyOfflineTransaction = async (
+  transaction: iOfflineTransaction
+): Promise<string[]> => {
+  if (!transaction.signedTransaction) {
+    return ['not signed'];
+  }
+  const signed = utils.parseTransaction(transaction.signedTransaction);
+  const request = toTransactionRequest(transaction);
+  const issues: string[] = [];
+
+  if (signed.from !== transaction.from) {
+    issues.push(`signed by ${signed.from} instead of ${transaction.from}`);
+  }
+  // Fields of the export, as parsed back from the signed transaction
+  const fields: (keyof Transaction & keyof providers.TransactionRequest)[] = [
+    'chainId',
+    'to',
+    'value',
+    'data',
+    'nonce',
+    'gasLimit',
+    'gasPrice',
+    'maxFeePerGas',
+    'maxPriorityFeePerGas',
+  ];
+  for (const field of fields) {
+    const [expected, actual] = [request[field], signed[field]];
+    const matches =
+      expected === undefined || expected === null
+        ? actual === undefined || actual === null
+        : actual !== undefined &&
+          actual !== null &&
+          (BigNumber.isBigNumber(actual)
+            ? actual.eq(expected as BigNumberish)
+            : String(actual).toLowerCase() === String(expected).toLowerCase());
+    if (!matches) {
+      issues.push(`signed ${field} ${actual} instead of ${expected}`);
+    }
+  }
+
+  // The intent is decoded again, so an edited description or call can't hide the calldata
+  const { call } = await decodeIntent({ ...transaction, description: '' });
+  if (call !== transaction.intent.call) {
+    issues.push(`calldata decodes to ${call}, not to the exported ${transaction.intent.call}`);
+  }
+  return issues;
+};
+
+/**
+ * Verifies every signed transaction against its fields, intent and network, then sends them in
+ * order. Nothing is sent if any of them fails the verification.
+ */
+export const broadcastOfflineTransactions = async (transactions: iOfflineTransaction[]) => {
+  const provider = DRE.ethers.provider;
+  const { chainId } = await provider.getNetwork();
+
+  const problems: string[] = [];
+  const nonces: { [from: string]: number } = {};
+  for (const transaction of transactions) {
+    const { from, nonce, intent } = transaction;
+    const issues = await verifyOfflineTransaction(transaction);
+    if (transaction.chainId !== chainId) {
+      issues.push(`chain ${transaction.chainId} instead of ${chainId}`);
+    }
+    nonces[from] = nonces[from] ?? (await provider.getTransactionCount(from, 'pending'));
+    if (nonce !== nonces[from]++) {
+      issues.push(`nonce ${nonce}, the next one of ${from} is ${nonces[from] - 1}`);
+    }
+    problems.push(...issues.map((issue) => `${intent.description}: ${issue}`));
+  }
+  if (problems.length) {
+    throw new Error(
+      `Nothing was broadcast, the transactions failed the verification:\n${problems.join('\n')}`
+    );
+  }
+
+  const hashes: string[] = [];
+  for (const { signedTransaction, intent } of transactions) {
+    const response = await provider.sendTransaction(signedTransaction!);
+    const receipt = await response.wait();
+    if (!receipt.status) {
+      throw new Error(`${intent.description} reverted in ${receipt.transactionHash}`);
+    }
+    console.log(`\t✔️ ${intent.description}: ${receipt.transactionHash}`);
+    hashes.push(receipt.transactionHash);
+  }
+  return hashes;
+};
@@ -0,0 +1,240 @@
+import { BigNumber, constants, utils } from 'ethers';
+import { DRE, getDb, getTargetNetwork } from './misc-utils';
+import { ZERO_ADDRESS } from './constants';
+import { getProxyImplementation } from './contracts-helpers';
+import { getNetworkConfig } from './network-registry';
+import {
+  iDecodedProposalAction,
+  iDeploymentRecord,
+  iProposalPayload,
+  tEthereumAddress,
+} from './types';
+
+const ERC20_SYMBOL_ABI = ['function symbol() view returns (string)'];
+
+interface iArtifactFunction {
+  contractName: string;
+  fragment: utils.FunctionFragment;
+}
+
+let artifactSelectors: { [selector: string]: iArtifactFunction[] } | undefined;
+
+/**
+ * Indexes the functions of every compiled artifact by selector
+ */
+const getArtifactSelectors = async () => {
+  if (!artifactSelectors) {
+    const selectors: { [selector: string]: iArtifactFunction[] } = {};
+    for (const name of await DRE.artifacts.getAllFullyQualifiedNames()) {
+      const { contractName, abi } = await DRE.artifacts.readArtifact(name);
+      const contractInterface = new utils.Interface(abi);
+      Object.values(contractInterface.functions).forEach((fragment) => {
+        const selector = contractInterface.getSighash(fragment);
+        selectors[selector] = [...(selectors[selector] || []), { contractName, fragment }];
+      });
+    }
+    artifactSelectors = selectors;
+  }
+  return artifactSelectors;
+};
+
+/**
+ * Names addresses after their token symbol, their DB record or their governance role. Proxies are
+ * named by their DB id, and implementations by the contract they run.
+ */
+class AddressLabeler {
+  private labels: { [address: string]: Promise<string | undefined> } = {};
+  private roles: { [address: string]: string } = {};
+
+  constructor() {
+    const { governance, stake } = getNetworkConfig(getTargetNetwork());
+    const roles = {
+      Governance: governance?.governance,
+      ShortExecutor: governance?.shortExecutor,
+      LongExecutor: governance?.longExecutor,
+      RewardsVault: stake.rewardsVault,
+    };
+    Object.entries(roles)
+      .filter(([, address]) => address && address !== ZERO_ADDRESS)
+      .forEach(([role, address]) => (this.roles[address!.toLowerCase()] = role));
+  }
+
+  getLabel(address: tEthereumAddress): Promise<string | undefined> {
+    const key = address.toLowerCase();
+    if (!(key in this.labels)) {
+      this.labels[key] = this.resolveLabel(address);
+    }
+    return this.labels[key];
+  }
+
+  async format(address: tEthereumAddress) {
+    const label = await this.getLabel(address);
+    return label ? `${label} @${utils.getAddress(address)}` : utils.getAddress(address);
+  }
+
+  private async resolveLabel(address: tEthereumAddress) {
+    if (this.roles[address.toLowerCase()]) {
+      return this.roles[address.toLowerCase()];
+    }
+    if ((await DRE.ethers.provider.getCode(address)) === '0x') {
+      return undefined;
+    }
+    try {
+      return await new DRE.ethers.Contract(address, ERC20_SYMBOL_ABI, DRE.ethers.provider).symbol();
+    } catch (error) {
+      // Not a token, named after its DB record below
+    }
+
+    const state = getDb().getState() as { [id: string]: { [network: string]: iDeploymentRecord } };
+    const id = Object.keys(state).find(
+      (id) => state[id][DRE.network.name]?.address?.toLowerCase() === address.toLowerCase()
+    );
+    if (!id) {
+      return undefined;
+    }
+    const { contractName } = state[id][DRE.network.name];
+    return contractName && (await getProxyImplementation(address)) === ZERO_ADDRESS
+      ? contractName
+      : id;
+  }
+}
+
+const formatValue = async (
+  param: utils.ParamType,
+  value: any,
+  labeler: AddressLabeler
+): Promise<string> => {
+  if (param.baseType === 'array') {
+    const items: string[] = [];
+    for (const item of value) {
+      items.push(await formatValue(param.arrayChildren, item, labeler));
+    }
+    return `[${items.join(', ')}]`;
+  }
+  if (param.baseType === 'tuple') {
+    const fields: string[] = [];
+    for (const [i, component] of param.components.entries()) {
+      fields.push(`${component.name || i}: ${await formatValue(component, value[i], labeler)}`);
+    }
+    return `{${fields.join(', ')}}`;
+  }
+  if (param.type === 'address') {
+    return labeler.format(value);
+  }
+  if (param.type.startsWith('uint') || param.type.startsWith('int')) {
+    return BigNumber.from(value).eq(constants.MaxUint256) ? 'MAX' : value.toString();
+  }
+  if (param.type === 'bytes') {
+    // Initialization data and batched calls are decoded when they match an artifact
+    return (value !== '0x' && (await decodeCall(value, labeler))?.call) || value;
+  }
+  if (param.type === 'string') {
+    return JSON.stringify(value);
+  }
+  return value.toString();
+};
+
+const formatCall = async (
+  fragment: utils.FunctionFragment,
+  data: string,
+  labeler: AddressLabeler
+): Promise<string> => {
+  const args = new utils.Interface([fragment]).decodeFunctionData(fragment, data);
+  const formattedArgs: string[] = [];
+  for (const [i, input] of fragment.inputs.entries()) {
+    formattedArgs.push(await formatValue(input, args[i], labeler));
+  }
+  return `${fragment.name}(${formattedArgs.join(', ')})`;
+};
+
+/**
+ * Decodes calldata, with selector, against the functions of the compiled artifacts
+ */
+const decodeCall = async (
+  data: string,
+  labeler: AddressLabeler
+): Promise<{ contractName: string; call: string } | undefined> => {
+  if (utils.hexDataLength(data) < 4) {
+    return undefined;
+  }
+  const candidates = (await getArtifactSelectors())[utils.hexDataSlice(data, 0, 4)] || [];
+  for (const { contractName, fragment } of candidates) {
+    try {
+      return { contractName, call: await formatCall(fragment, data, labeler) };
+    } catch (error) {
+      // Same selector with different arguments, try the next artifact
+    }
+  }
+  return undefined;
+};
+
+const decodeAction = async (
+  payload: iProposalPayload,
+  i: number,
+  labeler: AddressLabeler
+): Promise<iDecodedProposalAction> => {
+  const target = utils.getAddress(payload.targets[i]);
+  const signature = payload.signatures[i];
+  const calldata = payload.calldatas[i];
+  const withDelegatecall = payload.withDelegatecalls[i];
+  const warnings: string[] = [];
+
+  if (withDelegatecall) {
+    warnings.push(
+      'delegatecall: the target code runs with the storage and balance of the executor'
+    );
+  }
+  if ((await DRE.ethers.provider.getCode(target)) === '0x') {
+    warnings.push(`no code at the target on ${DRE.network.name}`);
+  } else if (!(await labeler.getLabel(target))) {
+    warnings.push('unknown target, not a token nor registered in the DB');
+  }
+
+  // An empty signature means the calldata already carries the selector
+  const data = signature ? utils.hexConcat([utils.id(signature).slice(0, 10), calldata]) : calldata;
+  let call = (await decodeCall(data, labeler))?.call;
+  if (!call) {
+    warnings.push('function not found in the compiled artifacts');
+    try {
+      call = signature
+        ? await formatCall(utils.FunctionFragment.from(signature), data, labeler)
+        : undefined;
+    } catch (error) {
+      warnings.push('calldata does not match the signature');
+    }
+  }
+
+  return {
+    target,
+    targetLabel: await labeler.format(target),
+    value: BigNumber.from(payload.values[i]).toString(),
+    signature,
+    call: call || `${signature || 'unknown'} with calldata ${calldata}`,
+    withDelegatecall,
+    warnings,
+  };
+};
+
+/**
+ * Decodes every action of a proposal into a readable call, flagging delegatecalls and targets that
+ * can't be identified
+ */
+export const decodeProposalPayload = async (
+  payload: iProposalPayload
+): Promise<{ executor: string; actions: iDecodedProposalAction[] }> => {
+  const labeler = new AddressLabeler();
+  const actions: iDecodedProposalAction[] = [];
+  for (let i = 0; i < payload.targets.length; i++) {
+    actions.push(await decodeAction(payload, i, labeler));
+  }
+  return { executor: await labeler.format(payload.executor), actions };
+};
+
+export const printDecodedProposal = (executor: string, actions: iDecodedProposalAction[]) => {
+  console.log(`\tExecutor: ${executor}`);
+  actions.forEach(({ targetLabel, value, call, warnings }, i) => {
+    console.log(`\t${i + 1}. ${targetLabel}${value !== '0' ? ` (value ${value})` : ''}`);
+    console.log(`\t\t${call}`);
+    warnings.forEach((warning) => console.log(`\t\t! ${warning}`));
+  });
+};
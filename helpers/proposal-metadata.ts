@@ -0,0 +1,219 @@
+import fs from 'fs';
+import path from 'path';
+import { utils } from 'ethers';
+import { getTargetNetwork } from './misc-utils';
+import { isDryRun } from './dry-run';
+import { decodeProposalPayload } from './proposal-decoder';
+import {
+  iDecodedProposalAction,
+  iProposalMetadata,
+  iProposalPayload,
+  iProposalRecord,
+  tEthereumAddress,
+} from './types';
+
+export const PROPOSALS_DIR = './proposals';
+
+// Size of the chunks `ipfs add` splits files into, bigger files hash into a tree of chunks
+const IPFS_CHUNK_SIZE = 262144;
+// Multihash prefix of the sha2-256 digests CIDv0 encode
+const SHA256_MULTIHASH_PREFIX = '0x1220';
+
+const DEFAULT_TEMPLATE = `---
+title: {{title}}
+author: {{author}}
+discussions: {{discussions}}
+created: {{created}}
+---
+
+## Simple Summary
+
+{{summary}}
+
+## Specification
+
+Executor: {{executor}}
+
+{{actions}}
+`;
+
+const encodeVarint = (value: number) => {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value & 0x7f) | 0x80);
+    value >>>= 7;
+  }
+  bytes.push(value);
+  return bytes;
+};
+
+/**
+ * Computes the CIDv0 `ipfs add` gives to the content, without uploading it: the sha256 of the
+ * dag-pb node wrapping the UnixFS file, base58 encoded
+ */
+export const getIpfsCid = (content: string | Uint8Array): string => {
+  const data = typeof content === 'string' ? utils.toUtf8Bytes(content) : content;
+  if (data.length > IPFS_CHUNK_SIZE) {
+    throw new Error(`Content of ${data.length} bytes is split by IPFS, keep it under 256KiB`);
+  }
+  // UnixFS Data { Type: File, Data, filesize }, the data field is omitted when empty
+  const unixFs = [
+    0x08,
+    0x02,
+    ...(data.length ? [0x12, ...encodeVarint(data.length), ...data] : []),
+    0x18,
+    ...encodeVarint(data.length),
+  ];
+  // PBNode { Data } without links
+  const node = [0x0a, ...encodeVarint(unixFs.length), ...unixFs];
+  return utils.base58.encode(utils.concat([SHA256_MULTIHASH_PREFIX, utils.sha256(node)]));
+};
+
+/**
+ * Converts a CIDv0 into the bytes32 digest governance stores. A bytes32 is returned as is.
+ */
+export const getIpfsBytes32 = (ipfsHash: string): string => {
+  if (utils.isHexString(ipfsHash, 32)) {
+    return ipfsHash;
+  }
+  let multihash: Uint8Array;
+  try {
+    multihash = utils.base58.decode(ipfsHash);
+  } catch (error) {
+    throw new Error(`Invalid IPFS hash ${ipfsHash}, expected a CIDv0 or a bytes32`);
+  }
+  if (multihash.length !== 34 || utils.hexlify(multihash.slice(0, 2)) !== SHA256_MULTIHASH_PREFIX) {
+    throw new Error(`Invalid IPFS hash ${ipfsHash}, only CIDv0 (Qm...) fit in a bytes32`);
+  }
+  return utils.hexlify(multihash.slice(2));
+};
+
+export const getIpfsCidFromBytes32 = (bytes32: string): string =>
+  utils.base58.encode(utils.concat([SHA256_MULTIHASH_PREFIX, bytes32]));
+
+const formatActions = (actions: iDecodedProposalAction[]) =>
+  actions
+    .map(({ targetLabel, value, call, warnings }, i) =>
+      [
+        `${i + 1}. \`${call}\` on ${targetLabel}${value !== '0' ? `, sending ${value} wei` : ''}`,
+        ...warnings.map((warning) => `   - **${warning}**`),
+      ].join('\n')
+    )
+    .join('\n');
+
+/**
+ * Renders the description of a proposal, replacing the {{placeholders}} of the template with the
+ * metadata and the decoded actions. Placeholders without value fail, so no draft is published.
+ */
+export const renderProposalDescription = async (
+  metadata: iProposalMetadata,
+  payload: iProposalPayload,
+  template: string = DEFAULT_TEMPLATE
+): Promise<string> => {
+  const { executor, actions } = await decodeProposalPayload(payload);
+  const values: { [placeholder: string]: string | undefined } = {
+    ...metadata,
+    discussions: metadata.discussions ?? '',
+    created: metadata.created || new Date().toISOString().slice(0, 10),
+    executor,
+    actions: formatActions(actions),
+  };
+
+  return template.replace(/{{\s*(\w+)\s*}}/g, (placeholder, key: string) => {
+    if (values[key] === undefined) {
+      throw new Error(`No value for the placeholder ${placeholder} of the proposal template`);
+    }
+    return values[key]!;
+  });
+};
+
+// Dry runs over a fork read the records of the forked network
+export const getProposalRecordPath = (name: string, network: string = getTargetNetwork()) =>
+  path.join(PROPOSALS_DIR, network, `${name}.json`);
+
+export const getProposalRecord = (name: string): iProposalRecord | undefined => {
+  const recordPath = getProposalRecordPath(name);
+  return fs.existsSync(recordPath) ? JSON.parse(fs.readFileSync(recordPath, 'utf8')) : undefined;
+};
+
+/**
+ * Writes the proposal record and its description under proposals/<network>/, the description
+ * with the name the record points to
+ */
+export const writeProposalRecord = (record: iProposalRecord, description: string) => {
+  const recordPath = getProposalRecordPath(record.name, record.network);
+  const descriptionPath = path.join(path.dirname(recordPath), record.description);
+  fs.mkdirSync(path.dirname(recordPath), { recursive: true });
+  fs.writeFileSync(descriptionPath, description);
+  fs.writeFileSync(recordPath, JSON.stringify(record, null, 2));
+  return { recordPath, descriptionPath };
+};
+
+/**
+ * Renders the description of the payload and records it with its IPFS hashes, ready to be pinned
+ * and proposed
+ */
+export const createProposalMetadata = async (
+  name: string,
+  metadata: iProposalMetadata,
+  payload: iProposalPayload,
+  template?: string
+) => {
+  const description = await renderProposalDescription(metadata, payload, template);
+  const ipfsCid = getIpfsCid(description);
+  const record: iProposalRecord = {
+    name,
+    network: getTargetNetwork(),
+    title: metadata.title,
+    description: `${name}.md`,
+    ipfsCid,
+    ipfsHash: getIpfsBytes32(ipfsCid),
+    payload,
+  };
+  return { record, ...writeProposalRecord(record, description) };
+};
+
+const normalizePayload = (payload: iProposalPayload) => JSON.stringify(payload).toLowerCase();
+
+/**
+ * Returns the bytes32 IPFS hash to propose: the given CIDv0 or bytes32, or the one of the proposal
+ * record, which must describe the same payload
+ */
+export const resolveProposalIpfsHash = (
+  payload: iProposalPayload,
+  { ipfsHash, metadata }: { ipfsHash?: string; metadata?: string }
+): string => {
+  if (!!ipfsHash === !!metadata) {
+    throw new Error('Pass either the ipfs hash or the name of the proposal metadata');
+  }
+  if (ipfsHash) {
+    return getIpfsBytes32(ipfsHash);
+  }
+  const record = getProposalRecord(metadata!);
+  if (!record) {
+    throw new Error(`No proposal record ${getProposalRecordPath(metadata!)}`);
+  }
+  if (normalizePayload(record.payload) !== normalizePayload(payload)) {
+    throw new Error(`The proposal record ${metadata} describes a different payload`);
+  }
+  return record.ipfsHash;
+};
+
+/**
+ * Adds the proposal id to the record once submitted. Dry runs leave the record untouched.
+ */
+export const recordProposalSubmission = (
+  name: string,
+  governance: tEthereumAddress,
+  proposalId: string
+) => {
+  if (isDryRun()) {
+    return;
+  }
+  const record = getProposalRecord(name);
+  if (!record) {
+    throw new Error(`No proposal record ${getProposalRecordPath(name)}`);
+  }
+  const recordPath = getProposalRecordPath(name);
+  fs.writeFileSync(recordPath, JSON.stringify({ ...record, governance, proposalId }, null, 2));
+};
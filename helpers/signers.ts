@@ -0,0 +1,131 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Writable } from 'stream';
+import { Signer, VoidSigner, Wallet, utils } from 'ethers';
+import { DRE, impersonateAccountsHardhat } from './misc-utils';
+import { getDefenderRelaySigner } from './defender-utils';
+import { getTxSigner, setTxSigner } from './tx-sender';
+import { eEthereumNetwork, eSignerType } from './types';
+
+export const SIGNER_PARAM_DESCRIPTION =
+  'keystore:<file>, mnemonic[:<hd path>], private-key, defender, impersonate:<address> or address:<address> to only export unsigned transactions. The first configured account by default.';
+
+const DEFAULT_HD_PATH = "m/44'/60'/0'/0/0";
+
+// Resolved once per spec, so nested tasks don't prompt again
+const resolvedSigners: { [spec: string]: Signer } = {};
+
+const promptPassword = (query: string) => {
+  if (!process.stdin.isTTY) {
+    throw new Error('Set KEYSTORE_PASSWORD, the password is only prompted in a terminal');
+  }
+  // Muted once the query is written, so the typed password is not echoed
+  let muted = false;
+  const output = new Writable({
+    write: (chunk, encoding, callback) => {
+      if (!muted) {
+        process.stdout.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  return new Promise<string>((resolve) => {
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    rl.question(query, (password) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(password);
+    });
+    muted = true;
+  });
+};
+
+const getKeystoreSigner = async (file?: string) => {
+  if (!file) {
+    throw new Error('Pass the keystore file, like --signer keystore:./deployer.json');
+  }
+  const password = process.env.KEYSTORE_PASSWORD ?? (await promptPassword(`Password of ${file}: `));
+  return Wallet.fromEncryptedJson(fs.readFileSync(file, 'utf8'), password);
+};
+
+const getMnemonicSigner = (hdPath?: string) => {
+  const { MNEMONIC, MNEMONIC_PATH } = process.env;
+  if (!MNEMONIC) {
+    throw new Error('Set MNEMONIC to sign with a mnemonic');
+  }
+  return Wallet.fromMnemonic(MNEMONIC, hdPath || MNEMONIC_PATH || DEFAULT_HD_PATH);
+};
+
+const getPrivateKeySigner = () => {
+  const { SIGNER_PRIVATE_KEY } = process.env;
+  if (!SIGNER_PRIVATE_KEY) {
+    throw new Error('Set SIGNER_PRIVATE_KEY to sign with a private key');
+  }
+  return new Wallet(SIGNER_PRIVATE_KEY);
+};
+
+const getImpersonatedSigner = async (address?: string) => {
+  if (DRE.network.name !== eEthereumNetwork.hardhat) {
+    throw new Error(
+      `Impersonation only runs on the hardhat network, use "--network hardhat" with FORK=<network>`
+    );
+  }
+  if (!address) {
+    throw new Error('Pass the account to impersonate, like --signer impersonate:0x...');
+  }
+  await impersonateAccountsHardhat([address]);
+  return DRE.ethers.provider.getSigner(address);
+};
+
+/**
+ * Resolves a signer spec, `<type>[:<argument>]`. Wallets connect to the network of the task.
+ */
+export const resolveSigner = async (spec: string): Promise<Signer> => {
+  if (resolvedSigners[spec]) {
+    return resolvedSigners[spec];
+  }
+  const separator = spec.indexOf(':');
+  const type = separator < 0 ? spec : spec.slice(0, separator);
+  const argument = separator < 0 ? undefined : spec.slice(separator + 1);
+
+  let signer: Signer;
+  switch (type) {
+    case eSignerType.keystore:
+      signer = (await getKeystoreSigner(argument)).connect(DRE.ethers.provider);
+      break;
+    case eSignerType.mnemonic:
+      signer = getMnemonicSigner(argument).connect(DRE.ethers.provider);
+      break;
+    case eSignerType.privateKey:
+      signer = getPrivateKeySigner().connect(DRE.ethers.provider);
+      break;
+    case eSignerType.defender:
+      ({ signer } = await getDefenderRelaySigner());
+      break;
+    case eSignerType.impersonate:
+      signer = await getImpersonatedSigner(argument);
+      break;
+    case eSignerType.address:
+      // Watch-only, for the keys kept offline
+      if (!argument || !utils.isAddress(argument)) {
+        throw new Error('Pass the address of the offline key, like --signer address:0x...');
+      }
+      signer = new VoidSigner(utils.getAddress(argument), DRE.ethers.provider);
+      break;
+    default:
+      throw new Error(
+        `Unknown signer ${type}, expected one of ${Object.values(eSignerType).join(', ')}`
+      );
+  }
+  resolvedSigners[spec] = signer;
+  return signer;
+};
+
+/**
+ * Selects the signer of the task from its --signer param, the first configured account without it.
+ * Nested tasks are passed the same param.
+ */
+export const useSigner = async (spec?: string): Promise<Signer> => {
+  setTxSigner(spec ? await resolveSigner(spec) : undefined);
+  return getTxSigner();
+};
@@ -0,0 +1,145 @@
+import { CompilerOutputContract } from 'hardhat/types';
+import { DRE } from './misc-utils';
+import { iStorageLayoutIssue, iStorageVariable } from './types';
+
+interface iSolcStorageType {
+  encoding: 'inplace' | 'mapping' | 'dynamic_array' | 'bytes';
+  label: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: { label: string; type: string; slot: string; offset: number }[];
+}
+
+interface iSolcStorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  // Fully qualified name of the contract declaring the variable
+  contract: string;
+}
+
+interface iSolcStorageLayout {
+  storage: iSolcStorageVariable[];
+  types: { [id: string]: iSolcStorageType } | null;
+}
+
+// Requested in the solc outputSelection, hardhat does not type it
+interface iCompilerOutputWithStorageLayout extends CompilerOutputContract {
+  storageLayout?: iSolcStorageLayout;
+}
+
+const describeType = (types: { [id: string]: iSolcStorageType }, typeId: string): string => {
+  const { encoding, label, key, value, base, members } = types[typeId];
+
+  if (encoding === 'mapping') {
+    return `mapping(${describeType(types, key!)} => ${describeType(types, value!)})`;
+  }
+  if (encoding === 'dynamic_array') {
+    return `${describeType(types, base!)}[]`;
+  }
+  if (members) {
+    return `struct { ${members
+      .map((member) => `${describeType(types, member.type)} ${member.label}`)
+      .join('; ')} }`;
+  }
+  if (base) {
+    return `${describeType(types, base)}${label.slice(label.lastIndexOf('['))}`;
+  }
+  return label.startsWith('contract ') ? 'address' : label;
+};
+
+/**
+ * Returns the storage variables of `contractName`, as given by the compiler output of its build
+ */
+export const getStorageLayout = async (contractName: string): Promise<iStorageVariable[]> => {
+  const artifact = await DRE.artifacts.readArtifact(contractName);
+  const buildInfo = await DRE.artifacts.getBuildInfo(
+    `${artifact.sourceName}:${artifact.contractName}`
+  );
+  const storageLayout = (
+    buildInfo?.output.contracts[artifact.sourceName][artifact.contractName] as
+      | iCompilerOutputWithStorageLayout
+      | undefined
+  )?.storageLayout;
+
+  if (!storageLayout) {
+    throw new Error(
+      `Storage layout of ${contractName} not found, compile with storageLayout in the solc outputSelection`
+    );
+  }
+
+  return storageLayout.storage.map(
+    ({ label, slot, offset, type, contract }): iStorageVariable => ({
+      label,
+      slot,
+      offset,
+      type: describeType(storageLayout.types || {}, type),
+      contract: contract.slice(contract.lastIndexOf(':') + 1),
+    })
+  );
+};
+
+const getPosition = ({ slot, offset }: iStorageVariable) => `slot ${slot} offset ${offset}`;
+
+/**
+ * Diffs the layout an upgrade moves to against the current one, slot by slot. Variables of the
+ * current layout need to keep their position and type, new ones can only be appended.
+ */
+export const compareStorageLayouts = (
+  current: iStorageVariable[],
+  updated: iStorageVariable[]
+): iStorageLayoutIssue[] =>
+  current.reduce((issues, variable) => {
+    const updatedVariable = updated.find(({ label }) => label === variable.label);
+
+    if (!updatedVariable) {
+      const replacement = updated.find(
+        ({ slot, offset }) => slot === variable.slot && offset === variable.offset
+      );
+      if (replacement && replacement.type === variable.type) {
+        issues.push({
+          kind: 'renamed',
+          breaking: false,
+          message: `${variable.label} renamed to ${replacement.label} at ${getPosition(variable)}`,
+        });
+      } else {
+        issues.push({
+          kind: 'removed',
+          breaking: true,
+          message: `${variable.label} (${variable.type}) removed from ${getPosition(variable)}${
+            replacement ? `, now used by ${replacement.label} (${replacement.type})` : ''
+          }`,
+        });
+      }
+      return issues;
+    }
+
+    if (updatedVariable.slot !== variable.slot || updatedVariable.offset !== variable.offset) {
+      issues.push({
+        kind: 'moved',
+        breaking: true,
+        message: `${variable.label} moved from ${getPosition(variable)} to ${getPosition(
+          updatedVariable
+        )}`,
+      });
+    }
+    if (updatedVariable.type !== variable.type) {
+      issues.push({
+        kind: 'retyped',
+        breaking: true,
+        message: `${variable.label} retyped from ${variable.type} to ${updatedVariable.type}`,
+      });
+    }
+    return issues;
+  }, [] as iStorageLayoutIssue[]);
+
+export const checkStorageLayoutCompatibility = async (
+  currentContract: string,
+  updatedContract: string
+) =>
+  compareStorageLayouts(
+    await getStorageLayout(currentContract),
+    await getStorageLayout(updatedContract)
+  );
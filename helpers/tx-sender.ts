@@ -0,0 +1,396 @@
+import { BigNumber, Signer, providers, utils } from 'ethers';
+import { DefenderRelaySigner } from 'defender-relay-client/lib/ethers';
+import { DRE, getDb, sleep } from './misc-utils';
+import {
+  eEthereumNetwork,
+  iPendingTransaction,
+  iTxSenderConfig,
+  tEthereumAddress,
+  tPendingTransactionStatus,
+} from './types';
+
+type tTransactionFees = Pick<
+  iPendingTransaction,
+  'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'
+>;
+
+const PENDING_TRANSACTIONS = 'PendingTransactions';
+const DEFAULT_PRIORITY_FEE = utils.parseUnits('1.5', 'gwei');
+
+const nextNonces: { [address: string]: number } = {};
+
+let selectedSigner: Signer | undefined;
+
+/**
+ * Transaction policy, overridable with the TX_* environment variables
+ */
+export const getTxSenderConfig = (): iTxSenderConfig => {
+  const {
+    TX_CONFIRMATIONS,
+    TX_TIMEOUT,
+    TX_RETRIES,
+    TX_FEE_BUMP,
+    TX_POLLING_INTERVAL,
+    TX_MAX_FEE_GWEI,
+    TX_PRIORITY_FEE_GWEI,
+  } = process.env;
+
+  return {
+    confirmations: TX_CONFIRMATIONS ? parseInt(TX_CONFIRMATIONS) : 1,
+    timeout: TX_TIMEOUT ? parseInt(TX_TIMEOUT) : 180,
+    retries: TX_RETRIES ? parseInt(TX_RETRIES) : 3,
+    feeBumpPercent: TX_FEE_BUMP ? parseInt(TX_FEE_BUMP) : 15,
+    pollingInterval: TX_POLLING_INTERVAL
+      ? parseInt(TX_POLLING_INTERVAL)
+      : DRE.ethers.provider.pollingInterval,
+    maxFeePerGas: TX_MAX_FEE_GWEI && utils.parseUnits(TX_MAX_FEE_GWEI, 'gwei').toString(),
+    maxPriorityFeePerGas:
+      TX_PRIORITY_FEE_GWEI && utils.parseUnits(TX_PRIORITY_FEE_GWEI, 'gwei').toString(),
+  };
+};
+
+// The in-process network does not outlive the run and its snapshots rewind the nonces, so its
+// transactions are neither tracked nor persisted
+const isLiveNetwork = () => DRE.network.name !== eEthereumNetwork.hardhat;
+
+const log = ({ nonce }: iPendingTransaction, message: string) => {
+  if (isLiveNetwork()) {
+    console.log(`\t[nonce ${nonce}] ${message}`);
+  }
+};
+
+const formatFees = ({ maxFeePerGas, maxPriorityFeePerGas, gasPrice }: tTransactionFees) =>
+  maxFeePerGas
+    ? `max fee ${utils.formatUnits(maxFeePerGas, 'gwei')} gwei, priority fee ${utils.formatUnits(
+        maxPriorityFeePerGas || 0,
+        'gwei'
+      )} gwei`
+    : `gas price ${utils.formatUnits(gasPrice || 0, 'gwei')} gwei`;
+
+/**
+ * EIP-1559 fees over the latest base fee, capped by TX_MAX_FEE_GWEI, or a legacy gas price on
+ * networks without base fee
+ */
+export const getTransactionFees = async (): Promise<tTransactionFees> => {
+  const config = getTxSenderConfig();
+  const cap = config.maxFeePerGas ? BigNumber.from(config.maxFeePerGas) : undefined;
+  const min = (value: BigNumber) => (cap && cap.lt(value) ? cap : value);
+  const { baseFeePerGas } = await DRE.ethers.provider.getBlock('latest');
+
+  if (!baseFeePerGas) {
+    return { gasPrice: min(await DRE.ethers.provider.getGasPrice()).toString() };
+  }
+  const maxFeePerGas = min(
+    baseFeePerGas.mul(2).add(config.maxPriorityFeePerGas || DEFAULT_PRIORITY_FEE)
+  );
+  const priorityFee = BigNumber.from(config.maxPriorityFeePerGas || DEFAULT_PRIORITY_FEE);
+  return {
+    maxFeePerGas: maxFeePerGas.toString(),
+    maxPriorityFeePerGas: (priorityFee.gt(maxFeePerGas) ? maxFeePerGas : priorityFee).toString(),
+  };
+};
+
+/**
+ * Fees of a replacement: the current ones, raised to at least the bump over the previous ones
+ */
+const getReplacementFees = (previous: tTransactionFees, current: tTransactionFees) => {
+  const { feeBumpPercent, maxFeePerGas } = getTxSenderConfig();
+  const bump = (fee?: string, previousFee?: string) => {
+    if (!fee) {
+      return undefined;
+    }
+    const bumped = BigNumber.from(previousFee || 0)
+      .mul(100 + feeBumpPercent)
+      .div(100);
+    return (bumped.gt(fee) ? bumped : BigNumber.from(fee)).toString();
+  };
+
+  const fees = {
+    maxFeePerGas: bump(current.maxFeePerGas, previous.maxFeePerGas),
+    maxPriorityFeePerGas: bump(current.maxPriorityFeePerGas, previous.maxPriorityFeePerGas),
+    gasPrice: bump(current.gasPrice, previous.gasPrice),
+  };
+  const fee = fees.maxFeePerGas || fees.gasPrice;
+  if (maxFeePerGas && fee && BigNumber.from(fee).gt(maxFeePerGas)) {
+    throw new Error(
+      `The replacement needs ${formatFees(fees)}, above TX_MAX_FEE_GWEI. Raise it to resume.`
+    );
+  }
+  return fees;
+};
+
+const reserveNonce = async (signer: Signer, address: tEthereumAddress) => {
+  if (!isLiveNetwork()) {
+    return undefined;
+  }
+  const nonce = Math.max(await signer.getTransactionCount('pending'), nextNonces[address] || 0);
+  nextNonces[address] = nonce + 1;
+  return nonce;
+};
+
+const getPendingKey = ({ from, nonce }: iPendingTransaction) =>
+  `${PENDING_TRANSACTIONS}.${DRE.network.name}.${from}-${nonce}`;
+
+const savePendingTransaction = (pending: iPendingTransaction) => {
+  if (isLiveNetwork()) {
+    getDb().set(getPendingKey(pending), pending).write();
+  }
+};
+
+export const removePendingTransaction = (pending: iPendingTransaction) => {
+  if (isLiveNetwork()) {
+    getDb().unset(getPendingKey(pending)).write();
+  }
+};
+
+/**
+ * Returns the transactions sent on the current network that were not confirmed yet
+ */
+export const getPendingTransactions = (): iPendingTransaction[] =>
+  Object.values<iPendingTransaction>(
+    getDb().get(`${PENDING_TRANSACTIONS}.${DRE.network.name}`).value() || {}
+  ).sort((a, b) => a.from.localeCompare(b.from) || a.nonce - b.nonce);
+
+const toPendingTransaction = (
+  response: providers.TransactionResponse,
+  hashes: string[] = []
+): iPendingTransaction => ({
+  from: response.from,
+  nonce: response.nonce,
+  to: response.to || undefined,
+  data: response.data,
+  value: response.value.toString(),
+  gasLimit: response.gasLimit.toString(),
+  maxFeePerGas: response.maxFeePerGas?.toString(),
+  maxPriorityFeePerGas: response.maxPriorityFeePerGas?.toString(),
+  gasPrice: response.maxFeePerGas ? undefined : response.gasPrice?.toString(),
+  hashes: [...hashes, response.hash],
+  sentAt: Math.floor(Date.now() / 1000),
+});
+
+const getPendingReceipt = async ({ hashes }: iPendingTransaction) => {
+  for (const hash of hashes) {
+    const receipt = await DRE.ethers.provider.getTransactionReceipt(hash);
+    if (receipt) {
+      return receipt;
+    }
+  }
+};
+
+export const getPendingTransactionStatus = async (
+  pending: iPendingTransaction
+): Promise<tPendingTransactionStatus> => {
+  // Read before the receipts, so a transaction mined in between is not taken as replaced
+  const usedNonce =
+    (await DRE.ethers.provider.getTransactionCount(pending.from, 'latest')) > pending.nonce;
+  if (await getPendingReceipt(pending)) {
+    return 'mined';
+  }
+  if (usedNonce) {
+    return 'replaced';
+  }
+  for (const hash of pending.hashes) {
+    if (await DRE.ethers.provider.getTransaction(hash)) {
+      return 'pending';
+    }
+  }
+  return 'dropped';
+};
+
+/**
+ * Sends `request`, or the pending transaction itself, with the nonce of the pending transaction and
+ * bumped fees. It replaces the transaction while stuck, and broadcasts it again once dropped.
+ */
+const replacePendingTransaction = async (
+  signer: Signer,
+  pending: iPendingTransaction,
+  request: providers.TransactionRequest = pending
+) => {
+  const fees = getReplacementFees(pending, await getTransactionFees());
+  const { to, data, value, gasLimit } = request;
+  const response = await signer.sendTransaction({
+    to,
+    data,
+    value,
+    gasLimit,
+    nonce: pending.nonce,
+    ...fees,
+  });
+
+  Object.assign(pending, toPendingTransaction(response, pending.hashes));
+  savePendingTransaction(pending);
+  log(pending, `Replaced by ${response.hash}, ${formatFees(fees)}`);
+};
+
+/**
+ * Waits until any hash of the pending transaction has `confirmations`. While none is mined after
+ * the configured timeout, the transaction is replaced with bumped fees, up to the configured retries.
+ */
+export const waitForPendingTransaction = async (
+  signer: Signer,
+  pending: iPendingTransaction,
+  confirmations: number = getTxSenderConfig().confirmations
+): Promise<providers.TransactionReceipt> => {
+  const { timeout, retries, pollingInterval } = getTxSenderConfig();
+  // Blocks are only mined on demand in-process, so further confirmations would never come
+  const required = isLiveNetwork() ? confirmations : 1;
+  let replacements = 0;
+  let deadline = Date.now() + timeout * 1000;
+
+  for (;;) {
+    const receipt = await getPendingReceipt(pending);
+    if (receipt && receipt.confirmations >= required) {
+      removePendingTransaction(pending);
+      if (receipt.status === 0) {
+        throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+      }
+      log(
+        pending,
+        `Mined ${receipt.transactionHash} in block ${receipt.blockNumber}, ${receipt.confirmations} confirmations`
+      );
+      return receipt;
+    }
+
+    if (!receipt && Date.now() >= deadline) {
+      const status = await getPendingTransactionStatus(pending);
+      if (status === 'replaced') {
+        removePendingTransaction(pending);
+        throw new Error(
+          `Nonce ${pending.nonce} of ${pending.from} was used by a transaction that is not tracked`
+        );
+      }
+      if (status !== 'mined') {
+        if (replacements === retries) {
+          throw new Error(
+            `Nonce ${pending.nonce} of ${pending.from} not mined after ${retries} replacements. Resume or cancel it with the pending-transactions task.`
+          );
+        }
+        log(pending, `Not mined after ${timeout}s (${status})`);
+        await replacePendingTransaction(signer, pending);
+        replacements++;
+        deadline = Date.now() + timeout * 1000;
+      }
+    }
+
+    await sleep(pollingInterval);
+  }
+};
+
+/**
+ * Waits for a transaction left by an interrupted run, broadcasting it again first if it was dropped
+ */
+export const resumePendingTransaction = async (signer: Signer, pending: iPendingTransaction) => {
+  if ((await getPendingTransactionStatus(pending)) === 'dropped') {
+    await replacePendingTransaction(signer, pending);
+  }
+  return waitForPendingTransaction(signer, pending);
+};
+
+/**
+ * Frees the nonce of a transaction left by an interrupted run, replacing it with an empty transfer
+ * to its sender
+ */
+export const cancelPendingTransaction = async (signer: Signer, pending: iPendingTransaction) => {
+  await replacePendingTransaction(signer, pending, {
+    to: pending.from,
+    data: '0x',
+    value: 0,
+    gasLimit: 21000,
+  });
+  return waitForPendingTransaction(signer, pending);
+};
+
+/**
+ * Signer sending every transaction through the transaction policy: nonces reserved locally so
+ * parallel sends do not collide, EIP-1559 fees, persisted pending transactions, and a `wait` that
+ * replaces stuck or dropped transactions
+ */
+export class ManagedSigner extends Signer {
+  readonly signer: Signer;
+
+  constructor(signer: Signer) {
+    super();
+    this.signer = signer;
+    utils.defineReadOnly(this, 'provider', signer.provider);
+  }
+
+  getAddress() {
+    return this.signer.getAddress();
+  }
+
+  signMessage(message: utils.Bytes | string) {
+    return this.signer.signMessage(message);
+  }
+
+  signTransaction(transaction: utils.Deferrable<providers.TransactionRequest>) {
+    return this.signer.signTransaction(transaction);
+  }
+
+  connect(provider: providers.Provider) {
+    return new ManagedSigner(this.signer.connect(provider));
+  }
+
+  async sendTransaction(
+    transaction: utils.Deferrable<providers.TransactionRequest>
+  ): Promise<providers.TransactionResponse> {
+    const request = await utils.resolveProperties(transaction);
+    const from = await this.getAddress();
+    const nonce = request.nonce ?? (await reserveNonce(this.signer, from));
+    const fees = request.gasPrice || request.maxFeePerGas ? {} : await getTransactionFees();
+
+    let response: providers.TransactionResponse;
+    try {
+      response = await this.signer.sendTransaction({ ...request, nonce, ...fees });
+    } catch (error) {
+      // The reserved nonce was not used, the next transaction reads it from the network again
+      delete nextNonces[from];
+      throw error;
+    }
+
+    const pending = toPendingTransaction(response);
+    savePendingTransaction(pending);
+    log(
+      pending,
+      `Sent ${response.hash} ${
+        response.to ? `to ${response.to}` : 'creating a contract'
+      }, ${formatFees(pending)}`
+    );
+
+    response.wait = (confirmations?: number) =>
+      waitForPendingTransaction(this.signer, pending, confirmations);
+    return response;
+  }
+}
+
+/**
+ * Selects the signer of the following transactions, the first configured account if unset
+ */
+export const setTxSigner = (signer?: Signer) => {
+  selectedSigner = signer;
+};
+
+/**
+ * Returns the selected signer or the first configured account, if any
+ */
+export const findTxSigner = async (): Promise<Signer | undefined> => {
+  if (selectedSigner) {
+    return selectedSigner;
+  }
+  const [defaultSigner] = await DRE.ethers.getSigners();
+  return defaultSigner;
+};
+
+/**
+ * Returns `signer`, or the selected one, sending through the transaction policy.
+ * Defender relayers keep their own nonces, fees and resubmissions.
+ */
+export const getTxSigner = async (signer?: Signer): Promise<Signer> => {
+  if (signer instanceof ManagedSigner || signer instanceof DefenderRelaySigner) {
+    return signer;
+  }
+  const txSigner = signer || (await findTxSigner());
+  if (!txSigner) {
+    throw new Error(`No account configured for ${DRE.network.name}, set PRIVATE_KEY or --signer`);
+  }
+  return txSigner instanceof DefenderRelaySigner ? txSigner : new ManagedSigner(txSigner);
+};
@@ -0,0 +1,170 @@
+import { BigNumberish, Contract, Signer, utils } from 'ethers';
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import { TypedMessage, signTypedData_v4 } from 'eth-sig-util';
+import { DRE } from './misc-utils';
+import { MAX_UINT_AMOUNT } from './constants';
+import {
+  eDelegationType,
+  iEIP712Domain,
+  iTypedData,
+  iTypedDataField,
+  iTypedDataSignature,
+  tEthereumAddress,
+} from './types';
+
+// Version of the domain of stkPSYS and of the PSYS token, EIP712_REVISION
+const EIP712_REVISION = '1';
+
+const EIP712_DOMAIN: iTypedDataField[] = [
+  { name: 'name', type: 'string' },
+  { name: 'version', type: 'string' },
+  { name: 'chainId', type: 'uint256' },
+  { name: 'verifyingContract', type: 'address' },
+];
+
+const PERMIT: iTypedDataField[] = [
+  { name: 'owner', type: 'address' },
+  { name: 'spender', type: 'address' },
+  { name: 'value', type: 'uint256' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'deadline', type: 'uint256' },
+];
+
+const DELEGATE_BY_TYPE: iTypedDataField[] = [
+  { name: 'delegatee', type: 'address' },
+  { name: 'type', type: 'uint256' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'expiry', type: 'uint256' },
+];
+
+const DELEGATE: iTypedDataField[] = [
+  { name: 'delegatee', type: 'address' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'expiry', type: 'uint256' },
+];
+
+const EIP712_TOKEN_ABI = [
+  'function name() view returns (string)',
+  'function DOMAIN_SEPARATOR() view returns (bytes32)',
+  'function _nonces(address) view returns (uint256)',
+];
+
+/**
+ * Reads the domain of the token, checked against its DOMAIN_SEPARATOR so a signature built on it
+ * is accepted
+ */
+export const getEIP712Domain = async (token: tEthereumAddress): Promise<iEIP712Domain> => {
+  const contract = new Contract(token, EIP712_TOKEN_ABI, DRE.ethers.provider);
+  const domain = {
+    name: await contract.name(),
+    version: EIP712_REVISION,
+    chainId: (await DRE.ethers.provider.getNetwork()).chainId,
+    verifyingContract: utils.getAddress(token),
+  };
+  const domainSeparator = await contract.DOMAIN_SEPARATOR();
+  if (utils._TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+    throw new Error(
+      `The domain of ${domain.name} at ${token} doesn't match its DOMAIN_SEPARATOR ${domainSeparator}`
+    );
+  }
+  return domain;
+};
+
+// The nonce of the owner is read from the token, unless one is given
+const buildTypedData = async (
+  token: tEthereumAddress,
+  owner: tEthereumAddress,
+  primaryType: string,
+  fields: iTypedDataField[],
+  message: { [field: string]: BigNumberish },
+  nonce?: BigNumberish
+): Promise<iTypedData> => {
+  const values = {
+    ...message,
+    nonce:
+      nonce ?? (await new Contract(token, EIP712_TOKEN_ABI, DRE.ethers.provider)._nonces(owner)),
+  };
+  return {
+    types: { EIP712Domain: EIP712_DOMAIN, [primaryType]: fields },
+    primaryType,
+    domain: await getEIP712Domain(token),
+    // Decimal strings, as eth_signTypedData_v4 and eth-sig-util expect them
+    message: fields.reduce(
+      (fieldValues, { name }) => ({ ...fieldValues, [name]: values[name].toString() }),
+      {}
+    ),
+  };
+};
+
+export const buildStakedPSYSPermit = (
+  stakedPSYS: tEthereumAddress,
+  owner: tEthereumAddress,
+  spender: tEthereumAddress,
+  value: BigNumberish,
+  deadline: BigNumberish = MAX_UINT_AMOUNT,
+  nonce?: BigNumberish
+) =>
+  buildTypedData(stakedPSYS, owner, 'Permit', PERMIT, { owner, spender, value, deadline }, nonce);
+
+/**
+ * Permit of the PSYS token for PegasysStakingHelper.stake(), which always submits it without
+ * deadline
+ */
+export const buildPsysPermit = (
+  psys: tEthereumAddress,
+  owner: tEthereumAddress,
+  stakingHelper: tEthereumAddress,
+  value: BigNumberish
+) =>
+  buildTypedData(psys, owner, 'Permit', PERMIT, {
+    owner,
+    spender: stakingHelper,
+    value,
+    deadline: MAX_UINT_AMOUNT,
+  });
+
+export const buildDelegateByType = (
+  stakedPSYS: tEthereumAddress,
+  owner: tEthereumAddress,
+  delegatee: tEthereumAddress,
+  type: eDelegationType,
+  expiry: BigNumberish = MAX_UINT_AMOUNT,
+  nonce?: BigNumberish
+) =>
+  buildTypedData(
+    stakedPSYS,
+    owner,
+    'DelegateByType',
+    DELEGATE_BY_TYPE,
+    { delegatee, type, expiry },
+    nonce
+  );
+
+// Delegates both the voting and the proposition power
+export const buildDelegate = (
+  stakedPSYS: tEthereumAddress,
+  owner: tEthereumAddress,
+  delegatee: tEthereumAddress,
+  expiry: BigNumberish = MAX_UINT_AMOUNT,
+  nonce?: BigNumberish
+) => buildTypedData(stakedPSYS, owner, 'Delegate', DELEGATE, { delegatee, expiry }, nonce);
+
+/**
+ * Signs the typed data through the signer, or with eth-sig-util for a raw private key
+ */
+export const signTypedData = async (
+  { types, primaryType, domain, message }: iTypedData,
+  signer: Signer | string
+): Promise<iTypedDataSignature> => {
+  const typedMessage: TypedMessage<iTypedData['types']> = { types, primaryType, domain, message };
+  const signature =
+    typeof signer === 'string'
+      ? signTypedData_v4(Buffer.from(utils.arrayify(signer)), { data: typedMessage })
+      : await (signer as Signer & TypedDataSigner)._signTypedData(
+          domain,
+          { [primaryType]: types[primaryType] },
+          message
+        );
+  const { v, r, s } = utils.splitSignature(signature);
+  return { v, r, s };
+};
@@ -3,9 +3,10 @@ import BigNumber from 'bignumber.js';
 export enum eEthereumNetwork {
   coverage = 'coverage',
   hardhat = 'hardhat',
-  kovan = 'kovan',
-  ropsten = 'ropsten',
   main = 'main',
+  rolluxTestnet = 'rolluxTestnet',
+  syscoin = 'syscoin',
+  tanenbaum = 'tanenbaum',
   goerli = 'goerli',
 }
 
@@ -15,6 +16,7 @@ export enum eContractid {
   StakedPSYSV3 = 'StakedPSYSV3',
   StakedPSYSImpl = 'StakedPSYSImpl',
   PegasysIncentivesController = 'PegasysIncentivesController',
+  PegasysIncentivesControllerImpl = 'PegasysIncentivesControllerImpl',
   IERC20Detailed = 'IERC20Detailed',
   AdminUpgradeabilityProxy = 'AdminUpgradeabilityProxy',
   InitializableAdminUpgradeabilityProxy = 'InitializableAdminUpgradeabilityProxy',
@@ -35,6 +37,14 @@ export enum eContractid {
   StakedTokenBptRev2 = 'StakedTokenBptRev2',
   PegasysStakingHelper = 'PegasysStakingHelper',
   StakeUIHelper = 'StakeUIHelper',
+  StakedTokenDataProvider = 'StakedTokenDataProvider',
+  MockAggregator = 'MockAggregator',
+  StakedTokenMock = 'StakedTokenMock',
+  IPegasysGovernanceV2 = 'IPegasysGovernanceV2',
+  IPegasysDistributionManager = 'IPegasysDistributionManager',
+  Create2Factory = 'Create2Factory',
+  GovernanceMock = 'GovernanceMock',
+  ExecutorMock = 'ExecutorMock',
 }
 
 export type tEthereumAddress = string;
@@ -44,7 +54,362 @@ export type tBigNumberTokenBigUnits = BigNumber;
 export type tStringTokenSmallUnits = string;
 export type tBigNumberTokenSmallUnits = BigNumber;
 
-export interface iParamsPerNetwork<T> {
-  [eEthereumNetwork.hardhat]: T;
-  [eEthereumNetwork.main]: T;
+export type iParamsPerNetwork<T> = {
+  [network in eEthereumNetwork]?: T;
+};
+
+export interface iStakeDeploymentManifest {
+  // Token users stake into StakedPSYSV3
+  stakedToken: tEthereumAddress;
+  // Token paid as rewards, pulled from the rewards vault
+  rewardToken: tEthereumAddress;
+  // Seconds between activating the cooldown and being able to redeem
+  cooldownSeconds: string;
+  // Seconds available to redeem once the cooldown is fulfilled
+  unstakeWindow: string;
+  // Holder of the rewards, needs to approve the staked token proxy
+  rewardsVault: tEthereumAddress;
+  // Only account allowed to call configureAssets()
+  emissionManager: tEthereumAddress;
+  // Seconds from the implementation deployment until DISTRIBUTION_END
+  distributionDuration: string;
+  // Governance notified on every transfer, ZERO_ADDRESS disables the hook
+  governance: tEthereumAddress;
+  // Admin of the InitializableAdminUpgradeabilityProxy
+  proxyAdmin: tEthereumAddress;
+}
+
+export interface iNetworkConfig {
+  chainId: number;
+  // Environment variable overriding the default RPC url, unset for in-process networks
+  rpcEnvVar?: string;
+  rpcUrl?: string;
+  // Block explorer used by the Etherscan verification
+  explorer?: {
+    apiURL: string;
+    browserURL: string;
+  };
+  // Stake parameters of the network, the missing ones must be passed by param to the tasks
+  stake: Partial<iStakeDeploymentManifest>;
+  governance?: iGovernanceConfig;
+}
+
+export enum eExecutor {
+  short = 'short',
+  long = 'long',
+}
+
+export enum eSignerType {
+  keystore = 'keystore',
+  mnemonic = 'mnemonic',
+  privateKey = 'private-key',
+  defender = 'defender',
+  impersonate = 'impersonate',
+  address = 'address',
+}
+
+// Values of IPegasysGovernanceV2.ProposalState
+export enum eProposalState {
+  Pending,
+  Canceled,
+  Active,
+  Failed,
+  Succeeded,
+  Queued,
+  Expired,
+  Executed,
+}
+
+// Values of the DelegationType of the staked token
+export enum eDelegationType {
+  VotingPower,
+  PropositionPower,
+}
+
+export interface iGovernanceConfig {
+  governance: tEthereumAddress;
+  shortExecutor: tEthereumAddress;
+  longExecutor: tEthereumAddress;
+}
+
+export interface iDeploymentRecord {
+  address: tEthereumAddress;
+  deployer?: tEthereumAddress;
+  contractName?: string;
+  // Constructor arguments decoded from the deployment transaction, numbers as strings
+  constructorArgs?: any[];
+  txHash?: string;
+  blockNumber?: number;
+  timestamp?: number;
+  gasUsed?: string;
+  gasPrice?: string;
+  compilerVersion?: string;
+  // keccak256 of the artifact creation bytecode, without constructor arguments
+  bytecodeHash?: string;
+  // Set when deployed through the Create2Factory
+  create2Factory?: tEthereumAddress;
+  salt?: string;
+  // Set once the source is verified on the block explorer
+  verified?: boolean;
+  // Previous deployments registered under the same id, oldest first
+  history?: Omit<iDeploymentRecord, 'history'>[];
+}
+
+export interface iDeploymentCheck {
+  description: string;
+  ok: boolean;
+  expected?: string;
+  actual?: string;
+}
+
+export interface iStorageVariable {
+  label: string;
+  slot: string;
+  offset: number;
+  // Canonical description of the type, independent of the names of the structs and contracts
+  type: string;
+  contract: string;
+}
+
+export interface iStorageLayoutIssue {
+  kind: 'removed' | 'moved' | 'retyped' | 'renamed';
+  // Renames keep the data in place, so they are reported without failing the check
+  breaking: boolean;
+  message: string;
+}
+
+export interface iAssetEmissionPlan {
+  underlyingAsset: tEthereumAddress;
+  totalStaked: string;
+  currentEmissionPerSecond: string;
+  emissionPerSecond: string;
+  // Asset index once configureAssets accrues the current emission, with the distribution precision
+  index: string;
+  // Index reached with the new emission, per horizon
+  projectedIndexes: [string, string][];
+}
+
+export interface iTxSenderConfig {
+  confirmations: number;
+  // Seconds a transaction may stay unmined before it is replaced with higher fees
+  timeout: number;
+  retries: number;
+  // Minimum fee increase of a replacement, nodes reject lower ones
+  feeBumpPercent: number;
+  // Milliseconds between two receipt checks
+  pollingInterval: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+export interface iPendingTransaction {
+  from: tEthereumAddress;
+  nonce: number;
+  to?: tEthereumAddress;
+  data?: string;
+  value?: string;
+  gasLimit?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  // Every hash broadcast for the nonce, the original first, as any of them may be mined
+  hashes: string[];
+  sentAt: number;
+}
+
+// replaced: the nonce was used by a transaction that is not tracked
+export type tPendingTransactionStatus = 'mined' | 'pending' | 'dropped' | 'replaced';
+
+export interface iContractReport {
+  id: string;
+  contractName?: string;
+  address: tEthereumAddress;
+  // Read from the EIP-1967 slots, unset for contracts that are not proxies
+  implementation?: string;
+  proxyAdmin?: tEthereumAddress;
+  // Named after the constructor inputs when the artifact is known
+  constructorArgs?: { [name: string]: any };
+  verified?: boolean;
+  gasUsed?: string;
+  // Native tokens paid for the deployment
+  gasCost?: string;
+}
+
+export interface iStakingParametersReport {
+  proxy: tEthereumAddress;
+  stakedToken: tEthereumAddress;
+  rewardToken: tEthereumAddress;
+  rewardsVault: tEthereumAddress;
+  emissionManager: tEthereumAddress;
+  cooldownDays: string;
+  unstakeWindowDays: string;
+  emissionPerDay: string;
+  distributionEnd: string;
+}
+
+export interface iDeploymentReport {
+  network: string;
+  chainId: number;
+  contracts: iContractReport[];
+  totalGasCost: string;
+  staking?: iStakingParametersReport;
+}
+
+export interface iProposalAction {
+  target: tEthereumAddress;
+  value: string;
+  signature: string;
+  // Abi encoded arguments of the signature, without selector
+  calldata: string;
+  withDelegatecall: boolean;
+  description: string;
+  // Account the target only accepts the call from, the proposal must be executed by it
+  executor?: tEthereumAddress;
+}
+
+// Arguments of IPegasysGovernanceV2.create, besides the ipfs hash
+export interface iProposalPayload {
+  executor: tEthereumAddress;
+  targets: tEthereumAddress[];
+  values: string[];
+  signatures: string[];
+  calldatas: string[];
+  withDelegatecalls: boolean[];
+}
+
+export interface iGovernanceSimulationConfig {
+  // Token whose balance is the voting power, ZERO_ADDRESS gives 1 vote per voter
+  votingToken: tEthereumAddress;
+  // Blocks from the creation of a proposal until the voting starts
+  votingDelay: string;
+  // Blocks the voting lasts
+  votingDuration: string;
+  // Seconds between queueing and executing on each executor
+  shortDelay: string;
+  longDelay: string;
+  // Seconds a queued proposal stays executable
+  gracePeriod: string;
+}
+
+export interface iProposalSimulation {
+  proposalId: string;
+  executionTime: number;
+  executionTxHash: string;
+  gasUsed: string;
+  checks: iDeploymentCheck[];
+}
+
+export interface iDecodedProposalAction {
+  target: tEthereumAddress;
+  targetLabel: string;
+  value: string;
+  signature: string;
+  // Call with its arguments decoded against the compiled artifacts, addresses labeled
+  call: string;
+  withDelegatecall: boolean;
+  // Anything reviewers should double check: delegatecalls, unknown targets or functions
+  warnings: string[];
+}
+
+// Values of the placeholders of the proposal description template
+export interface iProposalMetadata {
+  title: string;
+  author: string;
+  summary: string;
+  discussions?: string;
+  // Date as YYYY-MM-DD, the current one by default
+  created?: string;
+  [placeholder: string]: string | undefined;
+}
+
+export interface iProposalRecord {
+  name: string;
+  network: string;
+  title: string;
+  // Markdown file with the description, next to the record
+  description: string;
+  ipfsCid: string;
+  // CIDv0 digest, as expected by IPegasysGovernanceV2.create
+  ipfsHash: string;
+  payload: iProposalPayload;
+  // Set once the proposal is submitted
+  governance?: tEthereumAddress;
+  proposalId?: string;
+}
+
+// EIP-712 vote signed offline, submitted by anyone through submitVoteBySignature
+export interface iVoteSignature {
+  governance: tEthereumAddress;
+  chainId: number;
+  proposalId: string;
+  support: boolean;
+  voter: tEthereumAddress;
+  v: number;
+  r: string;
+  s: string;
+}
+
+export interface iProposalVoteStatus {
+  proposalId: string;
+  state: eProposalState;
+  startBlock: number;
+  endBlock: number;
+  forVotes: string;
+  againstVotes: string;
+  voter: tEthereumAddress;
+  // stkPSYS voting power at the start block, unknown until the block is mined or without stkPSYS
+  votingPower?: string;
+  vote?: { support: boolean; votingPower: string };
+}
+
+export interface iTransactionIntent {
+  description: string;
+  fromLabel: string;
+  targetLabel: string;
+  call: string;
+  warnings: string[];
+}
+
+// Transaction exported to be signed on another machine, then verified and broadcast
+export interface iOfflineTransaction {
+  network: string;
+  chainId: number;
+  from: tEthereumAddress;
+  to: tEthereumAddress;
+  value: string;
+  data: string;
+  nonce: number;
+  gasLimit: string;
+  gasPrice?: string;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  intent: iTransactionIntent;
+  // Set by sign-offline
+  signedTransaction?: string;
+}
+
+export interface iEIP712Domain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: tEthereumAddress;
+}
+
+export interface iTypedDataField {
+  name: string;
+  type: string;
+}
+
+// EIP-712 payload of eth_signTypedData_v4, with the nonce of the signer read from the token
+export interface iTypedData {
+  types: { EIP712Domain: iTypedDataField[]; [type: string]: iTypedDataField[] };
+  primaryType: string;
+  domain: iEIP712Domain;
+  message: { [field: string]: string };
+}
+
+export interface iTypedDataSignature {
+  v: number;
+  r: string;
+  s: string;
 }
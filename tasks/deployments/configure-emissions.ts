@@ -0,0 +1,131 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+import { utils } from 'ethers';
+
+import { eContractid } from '../../helpers/types';
+import {
+  getConfigureAssetsInput,
+  getDistributionManager,
+  getEmissionsPlan,
+} from '../../helpers/emissions';
+import {
+  DRE,
+  getDb,
+  getTargetNetwork,
+  impersonateAccountsHardhat,
+  waitForTx,
+} from '../../helpers/misc-utils';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { isDryRun, withDryRun } from '../../helpers/dry-run';
+import {
+  buildConfigureAssetsAction,
+  buildProposalPayload,
+} from '../../helpers/governance-proposal';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { StakedPSYSV3, PegasysIncentivesController } = eContractid;
+
+task(
+  'configure-emissions',
+  'Configures the emissions of a distribution from a target APR or budget'
+)
+  .addOptionalParam(
+    'target',
+    `The DB id of the distribution, like ${StakedPSYSV3} or ${PegasysIncentivesController}.`,
+    StakedPSYSV3
+  )
+  .addOptionalParam('targetAddress', 'The address of the distribution, instead of the DB.')
+  .addOptionalParam(
+    'assets',
+    `Comma separated assets to configure, defaults to the ${StakedPSYSV3} itself.`
+  )
+  .addOptionalParam(
+    'apr',
+    'Target APR in percent, for rewards of the same value as the staked asset.'
+  )
+  .addOptionalParam(
+    'budget',
+    'Total rewards in tokens until DISTRIBUTION_END, split by the stake of each asset.'
+  )
+  .addOptionalParam('output', 'File to write the governance payload to.')
+  .addFlag('dryRun', 'Simulate the configuration on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      { target, targetAddress, assets, apr, budget, output, dryRun, gasPrice, signer },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
+
+      await withDryRun(dryRun, gasPrice, async () => {
+        const address =
+          targetAddress || getDb().get(`${target}.${DRE.network.name}.address`).value();
+        if (!address) {
+          throw new Error(`${target} is not registered in the DB for ${DRE.network.name}`);
+        }
+        if (!assets && target !== StakedPSYSV3) {
+          throw new Error(`The assets of ${target} must be passed with --assets`);
+        }
+
+        const distributionManager = getDistributionManager(address);
+        const plan = await getEmissionsPlan(
+          distributionManager,
+          assets ? assets.split(',') : [address],
+          { apr, budget: budget && utils.parseEther(budget).toString() }
+        );
+
+        console.log(`\n- ${target} emissions on ${getTargetNetwork()}`);
+        plan.forEach((asset) => {
+          console.log(`\t${asset.underlyingAsset}`);
+          console.log(`\t\tTotal staked: ${utils.formatEther(asset.totalStaked)}`);
+          console.log(
+            `\t\tEmission per second: ${asset.currentEmissionPerSecond} -> ${asset.emissionPerSecond}`
+          );
+          console.log(`\t\tIndex: ${asset.index}`);
+          asset.projectedIndexes.forEach(([label, index]) =>
+            console.log(`\t\tIndex ${label}: ${index}`)
+          );
+        });
+
+        const configureAssetsInput = getConfigureAssetsInput(plan);
+        const emissionManager = await distributionManager.EMISSION_MANAGER();
+        const signer = await getTxSigner();
+
+        if ((await signer.getAddress()) === emissionManager) {
+          await waitForTx(
+            await distributionManager.connect(signer).configureAssets(configureAssetsInput)
+          );
+          console.log(`\n✔️ Emissions configured`);
+          return;
+        }
+
+        // configureAssets accrues the index with this total staked, so execute it before the stake moves
+        const payload = buildProposalPayload([
+          await buildConfigureAssetsAction(address, configureAssetsInput),
+        ]);
+        console.log(`\n- Signer is not the emission manager, governance payload`);
+        console.log(JSON.stringify(payload, null, 2));
+        if (output) {
+          fs.writeFileSync(output, JSON.stringify(payload, null, 2));
+          console.log(`\tWritten to ${output}`);
+        }
+
+        // A dry run executes the payload as the emission manager, so the report covers it
+        if (isDryRun()) {
+          await impersonateAccountsHardhat([emissionManager]);
+          await DRE.network.provider.request({
+            method: 'hardhat_setBalance',
+            params: [emissionManager, '0x56BC75E2D63100000'],
+          });
+          await waitForTx(
+            await distributionManager
+              .connect(DRE.ethers.provider.getSigner(emissionManager))
+              .configureAssets(configureAssetsInput)
+          );
+          console.log(`\tSimulated the configuration as the emission manager ${emissionManager}`);
+        }
+      });
+    }
+  );
@@ -0,0 +1,53 @@
+import { task } from 'hardhat/config';
+import { utils } from 'ethers';
+
+import { eContractid } from '../../helpers/types';
+import { DRE, getTargetNetwork } from '../../helpers/misc-utils';
+import { deployContract, insertContractAddressInDb } from '../../helpers/contracts-helpers';
+import { checkVerification, verifyContract } from '../../helpers/etherscan-verification';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { Create2Factory } = eContractid;
+
+task(
+  `deploy-${Create2Factory}`,
+  `Deploys the ${Create2Factory} from a dedicated account, at the same address on every network`
+)
+  .addFlag('verify', `Verify the ${Create2Factory} contract via Etherscan API.`)
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ verify, signer: signerSpec }, localBRE) => {
+    await localBRE.run('set-dre');
+    const signer = await useSigner(signerSpec);
+    const deployer = await signer.getAddress();
+
+    if (verify) {
+      checkVerification();
+    }
+
+    // The first contract of the account, so the address only depends on the account
+    const factoryAddress = utils.getContractAddress({ from: deployer, nonce: 0 });
+
+    console.log(`\n- ${Create2Factory} deployment on ${getTargetNetwork()}`);
+    console.log(`\tDeployer: ${deployer}, factory address ${factoryAddress}`);
+
+    if ((await DRE.ethers.provider.getCode(factoryAddress)) !== '0x') {
+      await insertContractAddressInDb(Create2Factory, factoryAddress);
+      console.log(`\tSkipping, ${Create2Factory} already deployed, recorded in the DB`);
+      return factoryAddress;
+    }
+    const nonce = await DRE.ethers.provider.getTransactionCount(deployer);
+    if (nonce !== 0) {
+      throw new Error(
+        `${deployer} already sent ${nonce} transactions, the ${Create2Factory} would not get ${factoryAddress}. Deploy it from an unused account.`
+      );
+    }
+
+    const factory = await deployContract(Create2Factory, [], '', signer);
+    await factory.deployTransaction.wait();
+    if (verify) {
+      await verifyContract(factory.address, []);
+    }
+
+    console.log(`\t${Create2Factory} deployed to ${factory.address}`);
+    return factory.address;
+  });
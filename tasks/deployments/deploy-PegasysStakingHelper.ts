@@ -1,40 +1,68 @@
 import { task } from 'hardhat/config';
 
-import { eContractid, eEthereumNetwork } from '../../helpers/types';
+import { eContractid } from '../../helpers/types';
 import { registerContractInJsonDb } from '../../helpers/contracts-helpers';
-import { getPSYStokenPerNetwork } from '../../helpers/constants';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
 import { deployPegasysStakingHelper } from '../../helpers/contracts-accessors';
 import { checkVerification } from '../../helpers/etherscan-verification';
+import { getTargetNetwork } from '../../helpers/misc-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 const { PegasysStakingHelper, StakedPSYS } = eContractid;
 
 task(`deploy-${PegasysStakingHelper}`, `Deploys the ${PegasysStakingHelper} contract`)
   .addParam('stkPSYS', `The address of the ${StakedPSYS} contract.`)
+  .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
   .addFlag('verify', 'Verify StakedPSYS contract via Etherscan API.')
-  .setAction(async ({ stkPSYS: stkPSYSAddress, verify }, localBRE) => {
-    await localBRE.run('set-dre');
+  .addFlag('dryRun', 'Simulate the deployment on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for a deterministic address.'
+  )
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      { stkPSYS: stkPSYSAddress, psysAddress, verify, dryRun, gasPrice, salt, signer },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
 
-    // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
-    if (verify) {
-      checkVerification();
-    }
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      if (verify && !dryRun) {
+        checkVerification();
+      }
 
-    if (!localBRE.network.config.chainId) {
-      throw new Error('INVALID_CHAIN_ID');
-    }
+      if (!localBRE.network.config.chainId) {
+        throw new Error('INVALID_CHAIN_ID');
+      }
 
-    const network = localBRE.network.name as eEthereumNetwork;
+      const network = getTargetNetwork();
 
-    console.log(`\n- ${network} network`);
-    console.log(`\n- ${PegasysStakingHelper} deployment`);
-    console.log(`\tDeploying ${PegasysStakingHelper} implementation ...`);
+      // Validate the deployment parameters before spending any gas
+      const { stakedToken: psysToken } = getStakeDeploymentManifest(
+        network,
+        { stakedToken: psysAddress },
+        ['stakedToken']
+      );
 
-    const psysToken = getPSYStokenPerNetwork(network);
+      await withDryRun(dryRun, gasPrice, async () => {
+        console.log(`\n- ${network} network`);
+        console.log(`\n- ${PegasysStakingHelper} deployment`);
+        console.log(`\tDeploying ${PegasysStakingHelper} implementation ...`);
 
-    const StakedPSYSHelper = await deployPegasysStakingHelper([stkPSYSAddress, psysToken], verify);
+        const StakedPSYSHelper = await deployPegasysStakingHelper(
+          [stkPSYSAddress, psysToken],
+          verify && !dryRun,
+          salt
+        );
 
-    await StakedPSYSHelper.deployTransaction.wait();
-    await registerContractInJsonDb(PegasysStakingHelper, StakedPSYSHelper);
+        await StakedPSYSHelper.deployTransaction.wait();
+        await registerContractInJsonDb(PegasysStakingHelper, StakedPSYSHelper);
 
-    console.log('PegasysStakingHelper deployed to', StakedPSYSHelper.address);
-  });
+        console.log('PegasysStakingHelper deployed to', StakedPSYSHelper.address);
+      });
+    }
+  );
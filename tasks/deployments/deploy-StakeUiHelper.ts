@@ -1,23 +1,48 @@
 import { task } from 'hardhat/config';
 
-import { eContractid, eEthereumNetwork } from '../../helpers/types';
+import { eContractid } from '../../helpers/types';
 import { registerContractInJsonDb } from '../../helpers/contracts-helpers';
-import { getPSYStokenPerNetwork, ZERO_ADDRESS } from '../../helpers/constants';
+import { ZERO_ADDRESS } from '../../helpers/constants';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
 import { deployStakeUIHelper } from '../../helpers/contracts-accessors';
 import { checkVerification } from '../../helpers/etherscan-verification';
+import { getTargetNetwork } from '../../helpers/misc-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 const { StakeUIHelper, StakedPSYS } = eContractid;
 
 task(`deploy-${StakeUIHelper}`, `Deploys the ${StakeUIHelper} contract`)
   .addParam('stkPSYS', `The address of the ${StakedPSYS} contract.`)
   .addParam('pegasysOracle', `The address of the PegasysOracle contract.`)
+  .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
   .addFlag('verify', 'Verify StakedPSYS contract via Etherscan API.')
+  .addFlag('dryRun', 'Simulate the deployment on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for a deterministic address.'
+  )
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
   .setAction(
-    async ({ stkPSYS: stkPSYSAddress, pegasysOracle: pegasysOracleAddress, verify }, localBRE) => {
+    async (
+      {
+        stkPSYS: stkPSYSAddress,
+        pegasysOracle: pegasysOracleAddress,
+        psysAddress,
+        verify,
+        dryRun,
+        gasPrice,
+        salt,
+        signer,
+      },
+      localBRE
+    ) => {
       await localBRE.run('set-dre');
+      await useSigner(signer);
 
       // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
-      if (verify) {
+      if (verify && !dryRun) {
         checkVerification();
       }
 
@@ -25,22 +50,37 @@ task(`deploy-${StakeUIHelper}`, `Deploys the ${StakeUIHelper} contract`)
         throw new Error('INVALID_CHAIN_ID');
       }
 
-      const network = localBRE.network.name as eEthereumNetwork;
+      const network = getTargetNetwork();
 
-      console.log(`\n- ${network} network`);
-      console.log(`\n- ${StakeUIHelper} deployment`);
-      console.log(`\tDeploying ${StakeUIHelper} implementation ...`);
+      // Validate the deployment parameters before spending any gas
+      const { stakedToken: psysToken } = getStakeDeploymentManifest(
+        network,
+        { stakedToken: psysAddress },
+        ['stakedToken']
+      );
 
-      const psysToken = getPSYStokenPerNetwork(network);
+      await withDryRun(dryRun, gasPrice, async () => {
+        console.log(`\n- ${network} network`);
+        console.log(`\n- ${StakeUIHelper} deployment`);
+        console.log(`\tDeploying ${StakeUIHelper} implementation ...`);
 
-      const StakedPSYSHelper = await deployStakeUIHelper(
-        [pegasysOracleAddress, ZERO_ADDRESS, psysToken, stkPSYSAddress, ZERO_ADDRESS, ZERO_ADDRESS],
-        verify
-      );
+        const StakedPSYSHelper = await deployStakeUIHelper(
+          [
+            pegasysOracleAddress,
+            ZERO_ADDRESS,
+            psysToken,
+            stkPSYSAddress,
+            ZERO_ADDRESS,
+            ZERO_ADDRESS,
+          ],
+          verify && !dryRun,
+          salt
+        );
 
-      await StakedPSYSHelper.deployTransaction.wait();
-      await registerContractInJsonDb(StakeUIHelper, StakedPSYSHelper);
+        await StakedPSYSHelper.deployTransaction.wait();
+        await registerContractInJsonDb(StakeUIHelper, StakedPSYSHelper);
 
-      console.log('StakeUIHelper deployed to', StakedPSYSHelper.address);
+        console.log('StakeUIHelper deployed to', StakedPSYSHelper.address);
+      });
     }
   );
@@ -1,23 +1,28 @@
 import { task } from 'hardhat/config';
 
-import { eContractid, eEthereumNetwork, tEthereumAddress } from '../../helpers/types';
-import { registerContractInJsonDb } from '../../helpers/contracts-helpers';
+import { eContractid } from '../../helpers/types';
+import { getTargetNetwork } from '../../helpers/misc-utils';
 import {
-  getPSYStokenPerNetwork,
-  getCooldownSecondsPerNetwork,
-  getUnstakeWindowPerNetwork,
-  getPegasysAdminPerNetwork,
-  getDistributionDurationPerNetwork,
-  getPegasysIncentivesVaultPerNetwork,
-  PSYS_GOVERNANCE_V2,
-} from '../../helpers/constants';
+  getProxyImplementation,
+  getProxyInitializeData,
+  getReusableDeployment,
+} from '../../helpers/contracts-helpers';
+import {
+  getStakeDeploymentManifest,
+  getStakedPSYSV3ConstructorArgs,
+} from '../../helpers/deployment-manifest';
 import {
   deployStakedPSYSV3,
   deployInitializableAdminUpgradeabilityProxy,
 } from '../../helpers/contracts-accessors';
 import { checkVerification } from '../../helpers/etherscan-verification';
-import { constants } from 'buffer';
-const {StakedPSYSV3} = eContractid;
+import { isDryRun } from '../../helpers/dry-run';
+import { ZERO_ADDRESS } from '../../helpers/constants';
+import { StakedPSYSV3 as StakedPSYSV3Contract } from '../../types/StakedPSYSV3';
+import { InitializableAdminUpgradeabilityProxy as ProxyContract } from '../../types/InitializableAdminUpgradeabilityProxy';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { StakedPSYSV3, InitializableAdminUpgradeabilityProxy } = eContractid;
 
 task(`deploy-${StakedPSYSV3}`, `Deploys the ${StakedPSYSV3} contract`)
   .addFlag('verify', 'Verify StakedPSYS contract via Etherscan API.')
@@ -26,44 +31,102 @@ task(`deploy-${StakedPSYSV3}`, `Deploys the ${StakedPSYSV3} contract`)
     'Use PegasysIncentivesVault address by param instead of configuration.'
   )
   .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
-  .setAction(async ({ verify, vaultAddress, psysAddress }, localBRE) => {
-    await localBRE.run('set-dre');
+  .addOptionalParam(
+    'emissionManager',
+    'Use the emission manager address by param instead of configuration.'
+  )
+  .addOptionalParam('proxyAdmin', 'Use the proxy admin address by param instead of configuration.')
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for a deterministic address.'
+  )
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      { verify, vaultAddress, psysAddress, emissionManager, proxyAdmin, salt, signer },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
 
-    // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
-    if (verify) {
-      checkVerification();
-    }
+      if (!localBRE.network.config.chainId) {
+        throw new Error('INVALID_CHAIN_ID');
+      }
 
-    if (!localBRE.network.config.chainId) {
-      throw new Error('INVALID_CHAIN_ID');
-    }
+      const network = getTargetNetwork();
+
+      // Validate the deployment parameters before spending any gas
+      const manifest = getStakeDeploymentManifest(network, {
+        stakedToken: psysAddress,
+        rewardToken: psysAddress,
+        rewardsVault: vaultAddress,
+        emissionManager,
+        proxyAdmin,
+      });
+
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      const verifyContracts = verify && !isDryRun();
+      if (verifyContracts) {
+        checkVerification();
+      }
 
-    const network = localBRE.network.name as eEthereumNetwork;
+      console.log(`\n- ${network} network`);
+      console.log(`\n- ${StakedPSYSV3} deployment`);
 
-    console.log(`\n- ${network} network`);
-    console.log(`\n- ${StakedPSYSV3} deployment`);
+      // Contracts of a previous run are reused if they are still up to date with the artifacts and manifest
+      let StakedPSYSProxy = await getReusableDeployment<ProxyContract>(
+        StakedPSYSV3,
+        InitializableAdminUpgradeabilityProxy
+      );
+      let StakedPSYSImpl = await getReusableDeployment<StakedPSYSV3Contract>(
+        eContractid.StakedPSYSImpl,
+        StakedPSYSV3,
+        {
+          STAKED_TOKEN: manifest.stakedToken,
+          REWARD_TOKEN: manifest.rewardToken,
+          COOLDOWN_SECONDS: manifest.cooldownSeconds,
+          UNSTAKE_WINDOW: manifest.unstakeWindow,
+          REWARDS_VAULT: manifest.rewardsVault,
+          EMISSION_MANAGER: manifest.emissionManager,
+        }
+      );
 
-    console.log(`\tDeploying ${StakedPSYSV3} implementation ...`);
-    const StakedPSYSImpl = await deployStakedPSYSV3(
-      [
-        psysAddress || getPSYStokenPerNetwork(network),
-        psysAddress || getPSYStokenPerNetwork(network),
-        getCooldownSecondsPerNetwork(network),
-        getUnstakeWindowPerNetwork(network),
-        vaultAddress || getPegasysIncentivesVaultPerNetwork(network),
-        getPegasysAdminPerNetwork(network),
-        getDistributionDurationPerNetwork(network),
-        PSYS_GOVERNANCE_V2
-      ],
-      true // disable verify due not supported by current buidler etherscan plugin
-    );
-    await StakedPSYSImpl.deployTransaction.wait();
-    await registerContractInJsonDb(await StakedPSYSImpl.name(), StakedPSYSImpl);
-    console.log(`\tDeploying ${StakedPSYSV3} Transparent Proxy ...`);
-    
-    const StakedPSYSProxy = await deployInitializableAdminUpgradeabilityProxy(verify);
-    await registerContractInJsonDb(StakedPSYSV3, StakedPSYSProxy);
+      if (StakedPSYSProxy) {
+        const currentImplementation = await getProxyImplementation(StakedPSYSProxy.address);
+        if (currentImplementation !== ZERO_ADDRESS) {
+          if (currentImplementation !== StakedPSYSImpl?.address) {
+            throw new Error(
+              `${StakedPSYSV3} proxy ${StakedPSYSProxy.address} is already initialized with implementation ${currentImplementation}, which does not match the configuration. Upgrade it instead of deploying.`
+            );
+          }
+          console.log(`\tSkipping ${StakedPSYSV3}, already deployed and initialized`);
+          return;
+        }
+      }
 
-    console.log(`\tFinished ${StakedPSYSV3} proxy and implementation deployment`);
-    console.log('StakePSYSProxy deployed to', StakedPSYSProxy.address);
-  });
+      if (!StakedPSYSImpl) {
+        console.log(`\tDeploying ${StakedPSYSV3} implementation ...`);
+        StakedPSYSImpl = await deployStakedPSYSV3(
+          getStakedPSYSV3ConstructorArgs(manifest),
+          verifyContracts,
+          salt
+        );
+        await StakedPSYSImpl.deployTransaction.wait();
+      }
+
+      if (!StakedPSYSProxy) {
+        console.log(`\tDeploying ${StakedPSYSV3} Transparent Proxy ...`);
+        // A salted proxy has a known address, so the factory initializes it in the same transaction
+        StakedPSYSProxy = await deployInitializableAdminUpgradeabilityProxy(
+          verifyContracts,
+          undefined,
+          salt,
+          StakedPSYSV3,
+          salt ? await getProxyInitializeData(StakedPSYSImpl, manifest.proxyAdmin) : undefined
+        );
+      }
+
+      console.log(`\tFinished ${StakedPSYSV3} proxy and implementation deployment`);
+      console.log('StakePSYSProxy deployed to', StakedPSYSProxy.address);
+    }
+  );
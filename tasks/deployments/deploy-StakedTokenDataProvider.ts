@@ -0,0 +1,92 @@
+import { task } from 'hardhat/config';
+
+import { eContractid } from '../../helpers/types';
+import { ZERO_ADDRESS } from '../../helpers/constants';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+import { deployStakedTokenDataProvider } from '../../helpers/contracts-accessors';
+import { checkVerification } from '../../helpers/etherscan-verification';
+import { getTargetNetwork } from '../../helpers/misc-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { StakedTokenDataProvider, StakedPSYSV3 } = eContractid;
+
+task(`deploy-${StakedTokenDataProvider}`, `Deploys the ${StakedTokenDataProvider} contract`)
+  .addParam('stkPSYS', `The address of the ${StakedPSYSV3} contract.`)
+  .addParam('ethUsdPriceFeed', 'The ETH price feed, USD denominated with 8 decimals.')
+  .addParam('psysPriceFeed', 'The PSYS price feed, ETH denominated with 18 decimals.')
+  .addOptionalParam('bpt', 'The address of the BPT PSYS / ETH token.', ZERO_ADDRESS)
+  .addOptionalParam('stkBpt', 'The address of the staked BPT token.', ZERO_ADDRESS)
+  .addOptionalParam(
+    'bptPriceFeed',
+    'The staked BPT price feed, ETH denominated with 18 decimals.',
+    ZERO_ADDRESS
+  )
+  .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
+  .addFlag('verify', 'Verify StakedTokenDataProvider contract via Etherscan API.')
+  .addFlag('dryRun', 'Simulate the deployment on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for a deterministic address.'
+  )
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      {
+        stkPSYS,
+        ethUsdPriceFeed,
+        psysPriceFeed,
+        bpt,
+        stkBpt,
+        bptPriceFeed,
+        psysAddress,
+        verify,
+        dryRun,
+        gasPrice,
+        salt,
+        signer,
+      },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
+
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      if (verify && !dryRun) {
+        checkVerification();
+      }
+
+      if (!localBRE.network.config.chainId) {
+        throw new Error('INVALID_CHAIN_ID');
+      }
+
+      const network = getTargetNetwork();
+
+      // Validate the deployment parameters before spending any gas
+      const { stakedToken: psysToken } = getStakeDeploymentManifest(
+        network,
+        { stakedToken: psysAddress },
+        ['stakedToken']
+      );
+
+      // The BPT price feed is only read for the staked BPT
+      if ((stkBpt === ZERO_ADDRESS) !== (bptPriceFeed === ZERO_ADDRESS)) {
+        throw new Error('stkBpt and bptPriceFeed must be set together');
+      }
+
+      await withDryRun(dryRun, gasPrice, async () => {
+        console.log(`\n- ${network} network`);
+        console.log(`\n- ${StakedTokenDataProvider} deployment`);
+
+        const dataProvider = await deployStakedTokenDataProvider(
+          [psysToken, stkPSYS, bpt, stkBpt, ethUsdPriceFeed, psysPriceFeed, bptPriceFeed],
+          verify && !dryRun,
+          salt
+        );
+        await dataProvider.deployTransaction.wait();
+
+        console.log(`${StakedTokenDataProvider} deployed to`, dataProvider.address);
+      });
+    }
+  );
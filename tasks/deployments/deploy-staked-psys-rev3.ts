@@ -1,22 +1,12 @@
-import { Signer } from 'ethers';
 import { task } from 'hardhat/config';
 import { deployStakedTokenV3Revision3 } from '../../helpers/contracts-accessors';
-import { getDefenderRelaySigner } from '../../helpers/defender-utils';
-import { DRE } from '../../helpers/misc-utils';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('deploy-staked-psys-rev3', 'Deploy implementation')
-  .addFlag('defender')
-  .setAction(async ({ defender }, localBRE: any) => {
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ signer }, localBRE: any) => {
     await localBRE.run('set-dre');
-
-    let deployer: Signer;
-
-    [deployer] = await DRE.ethers.getSigners();
-
-    if (defender) {
-      const { signer } = await getDefenderRelaySigner();
-      deployer = signer;
-    }
+    const deployer = await useSigner(signer);
 
     // Deploy stkPSYS V2 Revision 3 implementation
     const StakedPSYSV3Revision3Implementation = await deployStakedTokenV3Revision3(
@@ -0,0 +1,118 @@
+import { task } from 'hardhat/config';
+
+import { eContractid, tEthereumAddress } from '../../helpers/types';
+import { changeProxyAdmin, getContract, getProxyAdmin } from '../../helpers/contracts-helpers';
+import { checkPrivilegedRoles, printDeploymentChecks } from '../../helpers/deployment-checks';
+import { getNetworkConfig } from '../../helpers/network-registry';
+import { DRE, getDb, getTargetNetwork } from '../../helpers/misc-utils';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { withDryRun } from '../../helpers/dry-run';
+import {
+  buildOfflineTransactions,
+  iOfflineCall,
+  writeOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { StakedPSYSV3, PegasysIncentivesController, InitializableAdminUpgradeabilityProxy } =
+  eContractid;
+
+task('handover-admin', 'Moves the proxy admins of the stack to governance and audits its roles')
+  .addOptionalParam('newAdmin', 'The new proxy admin, instead of the configured proxyAdmin.')
+  .addOptionalParam(
+    'emissionManager',
+    'The expected EMISSION_MANAGER, instead of the configured emissionManager.'
+  )
+  .addOptionalParam(
+    'proxyIds',
+    'Comma separated DB ids of the proxies.',
+    `${StakedPSYSV3},${PegasysIncentivesController}`
+  )
+  .addOptionalParam('unsigned', 'File to export the admin changes to, instead of sending them.')
+  .addFlag('reportOnly', 'Only report the privileged roles, without changing any admin.')
+  .addFlag('dryRun', 'Simulate the handover on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      { newAdmin, emissionManager, proxyIds, unsigned, reportOnly, dryRun, gasPrice, signer },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
+      const network = getTargetNetwork();
+
+      const { stake } = getNetworkConfig(network);
+      const admin: tEthereumAddress | undefined = newAdmin || stake.proxyAdmin;
+      const expectedEmissionManager: tEthereumAddress | undefined =
+        emissionManager || stake.emissionManager;
+      if (!admin || !expectedEmissionManager) {
+        throw new Error(
+          `proxyAdmin or emissionManager not configured for ${network}, pass them by param`
+        );
+      }
+
+      await withDryRun(dryRun, gasPrice, async () => {
+        const proxies: { [id: string]: tEthereumAddress } = {};
+        for (const id of proxyIds.split(',')) {
+          const address = getDb().get(`${id}.${DRE.network.name}.address`).value();
+          if (!address) {
+            throw new Error(`Proxy ${id} is not registered in the DB for ${DRE.network.name}`);
+          }
+          proxies[id] = address;
+        }
+
+        const signer = await getTxSigner();
+        const signerAddress = await signer.getAddress();
+
+        console.log(`\n- Admin handover on ${network} to ${admin}`);
+        if (!reportOnly) {
+          const pending: [string, tEthereumAddress][] = [];
+          for (const [id, proxy] of Object.entries(proxies)) {
+            const currentAdmin = await getProxyAdmin(proxy);
+            if (currentAdmin.toLowerCase() === admin.toLowerCase()) {
+              console.log(`\tSkipping ${id}, already administered by ${admin}`);
+            } else if (currentAdmin !== signerAddress) {
+              // Checked for every proxy first, so the handover is not left half done
+              throw new Error(`Signer ${signerAddress} is not the admin ${currentAdmin} of ${id}`);
+            } else {
+              pending.push([id, proxy]);
+            }
+          }
+
+          if (unsigned) {
+            const calls: iOfflineCall[] = [];
+            for (const [id, proxy] of pending) {
+              const instance = await getContract(InitializableAdminUpgradeabilityProxy, proxy);
+              calls.push({
+                from: signerAddress,
+                to: proxy,
+                data: instance.interface.encodeFunctionData('changeAdmin', [admin]),
+                description: `Move the admin of ${id} to ${admin}`,
+              });
+            }
+            writeOfflineTransactions(unsigned, await buildOfflineTransactions(calls));
+          } else {
+            for (const [id, proxy] of pending) {
+              await changeProxyAdmin(proxy, admin, signer);
+              console.log(`\t${id} admin moved to ${admin}, admin slot verified`);
+            }
+          }
+        }
+
+        console.log(`\n- Privileged roles`);
+        const checks = await checkPrivilegedRoles(proxies, {
+          admin,
+          emissionManager: expectedEmissionManager,
+        });
+        printDeploymentChecks(checks);
+
+        const failed = checks.filter(({ ok }) => !ok);
+        if (failed.length) {
+          console.log(`\n! ${failed.length} privileged roles are not held by governance`);
+        } else {
+          console.log(`\n✔️ Every privileged role is held by governance`);
+        }
+      });
+    }
+  );
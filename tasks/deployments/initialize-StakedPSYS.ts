@@ -1,48 +1,54 @@
 import { task } from 'hardhat/config';
 import { eContractid } from '../../helpers/types';
-import { waitForTx } from '../../helpers/misc-utils';
-import {
-  ZERO_ADDRESS,
-  STAKED_PSYS_NAME,
-  STAKED_PSYS_SYMBOL,
-  STAKED_PSYS_DECIMALS,
-} from '../../helpers/constants';
-import {
-  getStakedPSYSV3,
-  getStakedPSYSImpl,
-  getStakedPSYSProxy,
-} from '../../helpers/contracts-accessors';
+import { getTargetNetwork, waitForTx } from '../../helpers/misc-utils';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+import { ZERO_ADDRESS } from '../../helpers/constants';
+import { getProxyImplementation } from '../../helpers/contracts-helpers';
+import { getStakedPSYSImpl, getStakedPSYSProxy } from '../../helpers/contracts-accessors';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 const { StakedPSYSV3 } = eContractid;
 
 task(`initialize-${StakedPSYSV3}`, `Initialize the ${StakedPSYSV3} proxy contract`)
-  .addParam('admin', `The address to be added as an Admin role in ${StakedPSYSV3} Transparent Proxy.`)
-  .setAction(async ({ admin: pegasysAdmin }, localBRE) => {
+  .addOptionalParam(
+    'admin',
+    `The address to be added as an Admin role in ${StakedPSYSV3} Transparent Proxy, instead of configuration.`
+  )
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ admin, signer }, localBRE) => {
     await localBRE.run('set-dre');
-
-    if (!pegasysAdmin) {
-      throw new Error(
-        `Missing --admin parameter to add the Admin Role to ${StakedPSYSV3} Transparent Proxy`
-      );
-    }
+    await useSigner(signer);
 
     if (!localBRE.network.config.chainId) {
       throw new Error('INVALID_CHAIN_ID');
     }
 
+    const { proxyAdmin: pegasysAdmin } = getStakeDeploymentManifest(
+      getTargetNetwork(),
+      { proxyAdmin: admin },
+      ['proxyAdmin']
+    );
+
     console.log(`\n- ${StakedPSYSV3} initialization`);
 
     const StakedPSYSV3Impl = await getStakedPSYSImpl();
     const StakedPSYSV3Proxy = await getStakedPSYSProxy();
 
+    const currentImplementation = await getProxyImplementation(StakedPSYSV3Proxy.address);
+    if (currentImplementation === StakedPSYSV3Impl.address) {
+      console.log(`\tSkipping initialization, ${StakedPSYSV3} proxy is already initialized`);
+      return;
+    }
+    if (currentImplementation !== ZERO_ADDRESS) {
+      throw new Error(
+        `${StakedPSYSV3} proxy is already initialized with implementation ${currentImplementation} instead of ${StakedPSYSV3Impl.address}`
+      );
+    }
+
     console.log('\tInitializing StakedPSYSV3');
 
-    const encodedInitializeStakedPSYSV3 = StakedPSYSV3Impl.interface.encodeFunctionData('initialize', [
-      ZERO_ADDRESS,
-      STAKED_PSYS_NAME,
-      STAKED_PSYS_SYMBOL,
-      STAKED_PSYS_DECIMALS,
-    ]);
+    const encodedInitializeStakedPSYSV3 =
+      StakedPSYSV3Impl.interface.encodeFunctionData('initialize');
 
     await waitForTx(
       await StakedPSYSV3Proxy.functions['initialize(address,address,bytes)'](
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+import { BigNumber, Contract } from 'ethers';
+
+import { eContractid, tEthereumAddress } from '../../helpers/types';
+import {
+  deployContract,
+  findDeploymentRecord,
+  getContract,
+  getProxyAdmin,
+  getProxyImplementation,
+} from '../../helpers/contracts-helpers';
+import {
+  getStakeDeploymentManifest,
+  getStakedPSYSV3ConstructorArgs,
+} from '../../helpers/deployment-manifest';
+import { checkStorageLayoutCompatibility } from '../../helpers/storage-layout';
+import { checkVerification, verifyContract } from '../../helpers/etherscan-verification';
+import {
+  DRE,
+  getDb,
+  getTargetNetwork,
+  impersonateAccountsHardhat,
+  waitForTx,
+} from '../../helpers/misc-utils';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { buildProposalPayload, buildUpgradeAction } from '../../helpers/governance-proposal';
+import { isDryRun, withDryRun } from '../../helpers/dry-run';
+import {
+  buildOfflineTransactions,
+  printOfflineTransactions,
+  writeOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { InitializableAdminUpgradeabilityProxy } from '../../types/InitializableAdminUpgradeabilityProxy';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const { StakedPSYSV3, StakedPSYSImpl } = eContractid;
+
+const REVISION_ABI = ['function REVISION() view returns (uint256)'];
+
+enum eUpgradeMode {
+  direct = 'direct',
+  governance = 'governance',
+  unsigned = 'unsigned',
+}
+
+const getImplementationId = (proxyId: string) =>
+  proxyId === StakedPSYSV3 ? StakedPSYSImpl : `${proxyId}Impl`;
+
+const getRevision = async (address: tEthereumAddress): Promise<BigNumber> =>
+  await new Contract(address, REVISION_ABI, DRE.ethers.provider).REVISION();
+
+task('upgrade-proxy', 'Deploys a new implementation and upgrades a proxy registered in the DB')
+  .addParam('proxyId', `The DB id of the proxy, like ${StakedPSYSV3}.`)
+  .addParam('implementation', 'The contract name of the new implementation.')
+  .addOptionalParam('implementationAddress', 'Use an already deployed implementation.')
+  .addOptionalParam(
+    'args',
+    `JSON array of constructor arguments, the network configuration is used for ${StakedPSYSV3}.`
+  )
+  .addOptionalParam('currentContract', 'The contract name of the current implementation.')
+  .addOptionalParam('initializer', 'The initializer called by upgradeToAndCall.', 'initialize')
+  .addOptionalParam('initializerArgs', 'JSON array of initializer arguments.', '[]')
+  .addOptionalParam('mode', 'direct, governance or unsigned. Direct if the signer is the admin.')
+  .addOptionalParam('output', 'File to write the governance payload or unsigned transaction to.')
+  .addFlag('verify', 'Verify the new implementation via Etherscan API.')
+  .addFlag('dryRun', 'Simulate the upgrade on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      {
+        proxyId,
+        implementation,
+        implementationAddress,
+        args,
+        currentContract,
+        initializer,
+        initializerArgs,
+        mode,
+        output,
+        verify,
+        dryRun,
+        gasPrice,
+        signer,
+      },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
+
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      if (verify && !dryRun) {
+        checkVerification();
+      }
+
+      // Every read happens inside the dry run, which exposes the forked network entries of the DB
+      await withDryRun(dryRun, gasPrice, async () => {
+        const proxyRecord = getDb().get(`${proxyId}.${DRE.network.name}`).value();
+        if (!proxyRecord?.address) {
+          throw new Error(`Proxy ${proxyId} is not registered in the DB for ${DRE.network.name}`);
+        }
+        const proxy = await getContract<InitializableAdminUpgradeabilityProxy>(
+          eContractid.InitializableAdminUpgradeabilityProxy,
+          proxyRecord.address
+        );
+        const admin = await getProxyAdmin(proxy.address);
+        const currentImplementation = await getProxyImplementation(proxy.address);
+
+        const signer = await getTxSigner();
+        const signerAddress = await signer.getAddress();
+        const upgradeMode: eUpgradeMode =
+          mode || (signerAddress === admin ? eUpgradeMode.direct : eUpgradeMode.unsigned);
+        if (!Object.values(eUpgradeMode).includes(upgradeMode)) {
+          throw new Error(`Invalid mode ${upgradeMode}, use one of ${Object.values(eUpgradeMode)}`);
+        }
+        if (upgradeMode === eUpgradeMode.direct && signerAddress !== admin) {
+          throw new Error(`Signer ${signerAddress} is not the admin ${admin} of ${proxyId}`);
+        }
+
+        console.log(`\n- ${proxyId} upgrade on ${getTargetNetwork()}`);
+        console.log(`\tProxy: ${proxy.address}, admin ${admin}`);
+        console.log(`\tCurrent implementation: ${currentImplementation}`);
+
+        // The storage layout only depends on the artifacts, so it is checked before any deployment
+        const currentContractName =
+          currentContract || findDeploymentRecord(currentImplementation)?.contractName;
+        if (!currentContractName) {
+          throw new Error(
+            `Contract name of the current implementation ${currentImplementation} is unknown, pass it with --current-contract`
+          );
+        }
+        const issues = await checkStorageLayoutCompatibility(currentContractName, implementation);
+        issues.forEach(({ breaking, message }) =>
+          console.log(`\t${breaking ? '✖' : '!'} ${message}`)
+        );
+        if (issues.some(({ breaking }) => breaking)) {
+          throw new Error(
+            `${implementation} is not storage compatible with ${currentContractName}`
+          );
+        }
+
+        let newImplementation: Contract;
+        if (implementationAddress) {
+          newImplementation = await getContract(implementation, implementationAddress);
+        } else {
+          const constructorArgs = args
+            ? JSON.parse(args)
+            : implementation === StakedPSYSV3
+            ? getStakedPSYSV3ConstructorArgs(getStakeDeploymentManifest(getTargetNetwork()))
+            : [];
+
+          console.log(`\tDeploying ${implementation} implementation ...`);
+          newImplementation = await deployContract(
+            implementation,
+            constructorArgs,
+            '',
+            signer,
+            undefined,
+            getImplementationId(proxyId)
+          );
+          await newImplementation.deployTransaction.wait();
+          if (verify && !dryRun) {
+            await verifyContract(newImplementation.address, constructorArgs);
+          }
+        }
+
+        const [currentRevision, newRevision] = [
+          await getRevision(currentImplementation),
+          await getRevision(newImplementation.address),
+        ];
+        console.log(`\tREVISION ${currentRevision.toString()} -> ${newRevision.toString()}`);
+        if (newRevision.lte(currentRevision)) {
+          throw new Error(
+            `REVISION of ${implementation} must be greater than the current ${currentRevision.toString()}`
+          );
+        }
+
+        const initializeData = newImplementation.interface.encodeFunctionData(
+          initializer,
+          JSON.parse(initializerArgs)
+        );
+        const upgradeData = proxy.interface.encodeFunctionData('upgradeToAndCall', [
+          newImplementation.address,
+          initializeData,
+        ]);
+
+        if (upgradeMode === eUpgradeMode.direct) {
+          await waitForTx(
+            await proxy.connect(signer).upgradeToAndCall(newImplementation.address, initializeData)
+          );
+          console.log(`\t${proxyId} upgraded to ${newImplementation.address}`);
+          return;
+        }
+
+        // The admin executes the upgrade, through the governance executor or its own signature
+        if (upgradeMode === eUpgradeMode.governance) {
+          const payload = buildProposalPayload([
+            await buildUpgradeAction(proxy.address, newImplementation.address, initializeData),
+          ]);
+          console.log(`\n- governance upgrade payload`);
+          console.log(JSON.stringify(payload, null, 2));
+          if (output) {
+            fs.writeFileSync(output, JSON.stringify(payload, null, 2));
+            console.log(`\tWritten to ${output}`);
+          }
+        } else {
+          const transactions = await buildOfflineTransactions([
+            {
+              from: admin,
+              to: proxy.address,
+              data: upgradeData,
+              description: `Upgrade ${proxyId} to ${newImplementation.address}`,
+            },
+          ]);
+          console.log(`\n- unsigned upgrade transaction`);
+          if (output) {
+            writeOfflineTransactions(output, transactions);
+          } else {
+            printOfflineTransactions(transactions);
+          }
+        }
+
+        // A dry run executes the payload as the admin, so the report covers the upgraded state
+        if (isDryRun()) {
+          await impersonateAccountsHardhat([admin]);
+          await DRE.network.provider.request({
+            method: 'hardhat_setBalance',
+            params: [admin, '0x56BC75E2D63100000'],
+          });
+          await waitForTx(
+            await proxy
+              .connect(DRE.ethers.provider.getSigner(admin))
+              .upgradeToAndCall(newImplementation.address, initializeData)
+          );
+          console.log(`\tSimulated the upgrade as the admin ${admin}`);
+        }
+      });
+    }
+  );
@@ -1,38 +1,98 @@
 import { task } from 'hardhat/config';
-import { HardhatRuntimeEnvironment } from 'hardhat/types';
 
-import { eContractid, eEthereumNetwork } from '../../helpers/types';
+import { eContractid } from '../../helpers/types';
 import { checkVerification } from '../../helpers/etherscan-verification';
-import { getPegasysAdminPerNetwork } from '../../helpers/constants';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+import { getTargetNetwork } from '../../helpers/misc-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { checkStakedPSYSDeployment } from '../../helpers/deployment-checks';
+import { getStakedPSYSProxy } from '../../helpers/contracts-accessors';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('common-deployment', 'Deployment in for Main, Kovan and Ropsten networks')
   .addFlag('verify', 'Verify StakedPSYSV3 and InitializableAdminUpgradeabilityProxy contract.')
+  .addFlag('dryRun', 'Simulate the deployment on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
   .addOptionalParam(
     'vaultAddress',
     'Use PegasysIncentivesVault address by param instead of configuration.'
   )
   .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
-  .setAction(async ({ verify, vaultAddress, psysAddress }, localBRE) => {
-    const DRE: HardhatRuntimeEnvironment = await localBRE.run('set-dre');
-    const network = DRE.network.name as eEthereumNetwork;
-    const pegasysAdmin = getPegasysAdminPerNetwork(network);
-
-    if (!pegasysAdmin) {
-      throw Error(
-        'The --admin parameter must be set. Set an Ethereum address as --admin parameter input.'
-      );
-    }
+  .addOptionalParam(
+    'emissionManager',
+    'Use the emission manager address by param instead of configuration.'
+  )
+  .addOptionalParam('proxyAdmin', 'Use the proxy admin address by param instead of configuration.')
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for a deterministic address.'
+  )
+  .addOptionalParam('report', 'File to write the deployment report to, markdown or .json.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      {
+        verify,
+        dryRun,
+        gasPrice,
+        vaultAddress,
+        psysAddress,
+        emissionManager,
+        proxyAdmin,
+        salt,
+        report,
+        signer,
+      },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signer);
+      const network = getTargetNetwork();
 
-    // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
-    if (verify) {
-      checkVerification();
-    }
+      // Validate the whole manifest before any transaction is sent
+      const manifest = getStakeDeploymentManifest(network, {
+        stakedToken: psysAddress,
+        rewardToken: psysAddress,
+        rewardsVault: vaultAddress,
+        emissionManager,
+        proxyAdmin,
+      });
+
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      if (verify && !dryRun) {
+        checkVerification();
+      }
+
+      await withDryRun(
+        dryRun,
+        gasPrice,
+        async () => {
+          await localBRE.run(`deploy-${eContractid.StakedPSYSV3}`, {
+            verify: verify && !dryRun,
+            vaultAddress,
+            psysAddress,
+            emissionManager,
+            proxyAdmin,
+            salt,
+            signer,
+          });
 
-    await DRE.run(`deploy-${eContractid.StakedPSYSV3}`, { verify, vaultAddress, psysAddress });
+          await localBRE.run(`initialize-${eContractid.StakedPSYSV3}`, {
+            admin: manifest.proxyAdmin,
+            signer,
+          });
 
-    await DRE.run(`initialize-${eContractid.StakedPSYSV3}`, {
-      admin: pegasysAdmin,
-    });
+          console.log(`\n✔️ Finished the deployment of the PSYS token ${network} Enviroment. ✔️`);
 
-    console.log(`\n✔️ Finished the deployment of the PSYS token ${network} Enviroment. ✔️`);
-  });
+          if (report) {
+            await localBRE.run('deployment-report', { output: report });
+          }
+        },
+        // The rewards vault approval is left to governance, so it is not part of the deployment
+        async () =>
+          checkStakedPSYSDeployment((await getStakedPSYSProxy()).address, manifest, {
+            checkAllowance: false,
+          })
+      );
+    }
+  );
@@ -0,0 +1,331 @@
+import { task } from 'hardhat/config';
+
+import { eContractid, tEthereumAddress } from '../../helpers/types';
+import {
+  getProxyImplementation,
+  getProxyInitializeData,
+  getReusableDeployment,
+} from '../../helpers/contracts-helpers';
+import {
+  deployInitializableAdminUpgradeabilityProxy,
+  deployPegasysIncentivesController,
+  deployPegasysStakingHelper,
+  deployStakeUIHelper,
+  deployStakedTokenDataProvider,
+  getERC20Contract,
+  getStakedPSYSProxy,
+  getStakedPSYSV3,
+} from '../../helpers/contracts-accessors';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+import { checkStakedPSYSDeployment } from '../../helpers/deployment-checks';
+import { checkVerification } from '../../helpers/etherscan-verification';
+import { DRE, getTargetNetwork, waitForTx } from '../../helpers/misc-utils';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { withDryRun } from '../../helpers/dry-run';
+import { MAX_UINT_AMOUNT, PSM_STAKER_PREMIUM, ZERO_ADDRESS } from '../../helpers/constants';
+import { PegasysIncentivesController as PegasysIncentivesControllerContract } from '../../types/PegasysIncentivesController';
+import { InitializableAdminUpgradeabilityProxy as ProxyContract } from '../../types/InitializableAdminUpgradeabilityProxy';
+import { PegasysStakingHelper as PegasysStakingHelperContract } from '../../types/PegasysStakingHelper';
+import { StakeUIHelper as StakeUIHelperContract } from '../../types/StakeUIHelper';
+import { StakedTokenDataProvider as StakedTokenDataProviderContract } from '../../types/StakedTokenDataProvider';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+const {
+  StakedPSYSV3,
+  StakedPSYSImpl,
+  PegasysIncentivesController,
+  PegasysIncentivesControllerImpl,
+  PegasysStakingHelper,
+  StakeUIHelper,
+  StakedTokenDataProvider,
+  InitializableAdminUpgradeabilityProxy,
+} = eContractid;
+
+task('deploy-stack', 'Deploys and wires the complete staking stack')
+  .addFlag('verify', 'Verify the contracts via Etherscan API.')
+  .addFlag('dryRun', 'Simulate the deployment on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam(
+    'vaultAddress',
+    'Use PegasysIncentivesVault address by param instead of configuration.'
+  )
+  .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
+  .addOptionalParam(
+    'emissionManager',
+    'Use the emission manager address by param instead of configuration.'
+  )
+  .addOptionalParam('proxyAdmin', 'Use the proxy admin address by param instead of configuration.')
+  .addOptionalParam('pegasysOracle', 'The price oracle used by the StakeUIHelper.', ZERO_ADDRESS)
+  .addOptionalParam('ethUsdPriceFeed', 'The ETH/USD price feed of the data provider.', ZERO_ADDRESS)
+  .addOptionalParam('psysPriceFeed', 'The PSYS/ETH price feed of the data provider.', ZERO_ADDRESS)
+  .addOptionalParam(
+    'emissionPerSecond',
+    `The initial ${StakedPSYSV3} emission per second, in wei. Zero skips the configuration.`,
+    '0'
+  )
+  .addOptionalParam(
+    'extraPsmReward',
+    `The ${PegasysIncentivesController} premium of rewards staked in ${StakedPSYSV3}, in percent.`,
+    PSM_STAKER_PREMIUM
+  )
+  .addOptionalParam(
+    'salt',
+    'Deploy through the Create2Factory with this salt, for deterministic addresses.'
+  )
+  .addOptionalParam('report', 'File to write the deployment report to, markdown or .json.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(
+    async (
+      {
+        verify,
+        dryRun,
+        gasPrice,
+        vaultAddress,
+        psysAddress,
+        emissionManager,
+        proxyAdmin,
+        pegasysOracle,
+        ethUsdPriceFeed,
+        psysPriceFeed,
+        emissionPerSecond,
+        extraPsmReward,
+        salt,
+        report,
+        signer: signerSpec,
+      },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      await useSigner(signerSpec);
+      const network = getTargetNetwork();
+
+      // Validate the whole manifest before any transaction is sent
+      const manifest = getStakeDeploymentManifest(network, {
+        stakedToken: psysAddress,
+        rewardToken: psysAddress,
+        rewardsVault: vaultAddress,
+        emissionManager,
+        proxyAdmin,
+      });
+
+      // If Etherscan verification is enabled, check needed enviroments to prevent loss of gas in failed deployments.
+      if (verify && !dryRun) {
+        checkVerification();
+      }
+      const verifyContracts = verify && !dryRun;
+
+      let vaultApproved = false;
+
+      await withDryRun(
+        dryRun,
+        gasPrice,
+        async () => {
+          const signer = await getTxSigner();
+          const signerAddress = await signer.getAddress();
+
+          console.log(`\n- Staking stack deployment on ${network}`);
+
+          await localBRE.run(`deploy-${StakedPSYSV3}`, {
+            verify: verifyContracts,
+            vaultAddress: manifest.rewardsVault,
+            psysAddress: manifest.stakedToken,
+            emissionManager: manifest.emissionManager,
+            proxyAdmin: manifest.proxyAdmin,
+            salt,
+            signer: signerSpec,
+          });
+          await localBRE.run(`initialize-${StakedPSYSV3}`, {
+            admin: manifest.proxyAdmin,
+            signer: signerSpec,
+          });
+          const stkPSYS = (await getStakedPSYSProxy()).address;
+
+          console.log(`\n- ${PegasysIncentivesController} deployment`);
+          let incentivesController = await getReusableDeployment<ProxyContract>(
+            PegasysIncentivesController,
+            InitializableAdminUpgradeabilityProxy
+          );
+          if (
+            incentivesController &&
+            (await getProxyImplementation(incentivesController.address)) !== ZERO_ADDRESS
+          ) {
+            console.log(`\tSkipping ${PegasysIncentivesController}, already initialized`);
+          } else {
+            const incentivesControllerArgs: [
+              tEthereumAddress,
+              tEthereumAddress,
+              tEthereumAddress,
+              string,
+              tEthereumAddress,
+              string
+            ] = [
+              manifest.rewardToken,
+              manifest.rewardsVault,
+              stkPSYS,
+              extraPsmReward,
+              manifest.emissionManager,
+              manifest.distributionDuration,
+            ];
+            let incentivesControllerImpl =
+              await getReusableDeployment<PegasysIncentivesControllerContract>(
+                PegasysIncentivesControllerImpl,
+                PegasysIncentivesController,
+                {
+                  PSM: stkPSYS,
+                  REWARD_TOKEN: manifest.rewardToken,
+                  REWARDS_VAULT: manifest.rewardsVault,
+                  EMISSION_MANAGER: manifest.emissionManager,
+                }
+              );
+            if (!incentivesControllerImpl) {
+              incentivesControllerImpl = await deployPegasysIncentivesController(
+                incentivesControllerArgs,
+                verifyContracts,
+                salt
+              );
+            }
+
+            if (!incentivesController) {
+              // Both proxies share the creation code, so they need distinct salts. The factory
+              // initializes a salted proxy in the same transaction, as its address is known.
+              incentivesController = await deployInitializableAdminUpgradeabilityProxy(
+                verifyContracts,
+                undefined,
+                salt && `${salt}-${PegasysIncentivesController}`,
+                PegasysIncentivesController,
+                salt
+                  ? await getProxyInitializeData(incentivesControllerImpl, manifest.proxyAdmin)
+                  : undefined
+              );
+            }
+            if ((await getProxyImplementation(incentivesController.address)) === ZERO_ADDRESS) {
+              await waitForTx(
+                await incentivesController['initialize(address,address,bytes)'](
+                  incentivesControllerImpl.address,
+                  manifest.proxyAdmin,
+                  incentivesControllerImpl.interface.encodeFunctionData('initialize')
+                )
+              );
+            }
+          }
+
+          console.log(`\n- Helpers deployment`);
+          const stakingHelper =
+            (await getReusableDeployment<PegasysStakingHelperContract>(
+              PegasysStakingHelper,
+              PegasysStakingHelper,
+              { STAKE: stkPSYS, PSYS: manifest.stakedToken }
+            )) ||
+            (await deployPegasysStakingHelper(
+              [stkPSYS, manifest.stakedToken],
+              verifyContracts,
+              salt
+            ));
+          const stakeUIHelper =
+            (await getReusableDeployment<StakeUIHelperContract>(StakeUIHelper, StakeUIHelper, {
+              PRICE_ORACLE: pegasysOracle,
+              PSYS: manifest.stakedToken,
+              STAKED_PSYS: stkPSYS,
+            })) ||
+            (await deployStakeUIHelper(
+              [
+                pegasysOracle,
+                ZERO_ADDRESS,
+                manifest.stakedToken,
+                stkPSYS,
+                ZERO_ADDRESS,
+                ZERO_ADDRESS,
+              ],
+              verifyContracts,
+              salt
+            ));
+          const dataProvider =
+            (await getReusableDeployment<StakedTokenDataProviderContract>(
+              StakedTokenDataProvider,
+              StakedTokenDataProvider,
+              {
+                PSYS: manifest.stakedToken,
+                STAKED_PSYS: stkPSYS,
+                ETH_USD_PRICE_FEED: ethUsdPriceFeed,
+                PSYS_PRICE_FEED: psysPriceFeed,
+              }
+            )) ||
+            (await deployStakedTokenDataProvider(
+              [
+                manifest.stakedToken,
+                stkPSYS,
+                ZERO_ADDRESS,
+                ZERO_ADDRESS,
+                ethUsdPriceFeed,
+                psysPriceFeed,
+                ZERO_ADDRESS,
+              ],
+              verifyContracts,
+              salt
+            ));
+
+          console.log(`\n- ${StakedPSYSV3} emissions`);
+          if (emissionPerSecond === '0') {
+            console.log('\tSkipping, no emission per second given');
+          } else if (signerAddress !== manifest.emissionManager) {
+            console.log(
+              `\tSkipping, the signer is not the emission manager ${manifest.emissionManager}. Configure them through governance.`
+            );
+          } else {
+            const stakedPSYS = await getStakedPSYSV3({ address: stkPSYS });
+            await waitForTx(
+              await stakedPSYS.configureAssets([
+                {
+                  emissionPerSecond,
+                  totalStaked: await stakedPSYS.totalSupply(),
+                  underlyingAsset: stkPSYS,
+                },
+              ])
+            );
+            console.log(`\tConfigured ${emissionPerSecond} rewards per second`);
+          }
+
+          console.log(`\n- Rewards vault approvals`);
+          if (signerAddress !== manifest.rewardsVault) {
+            console.log(
+              `\tSkipping, the signer is not the rewards vault ${manifest.rewardsVault}. Approve through propose-vault-approval.`
+            );
+          } else {
+            const rewardToken = await getERC20Contract(manifest.rewardToken);
+            for (const spender of [stkPSYS, incentivesController.address]) {
+              if ((await rewardToken.allowance(signerAddress, spender)).isZero()) {
+                await waitForTx(await rewardToken.approve(spender, MAX_UINT_AMOUNT));
+              }
+              console.log(`\tApproved ${spender}`);
+            }
+            vaultApproved = true;
+          }
+
+          const summary: [string, tEthereumAddress][] = [
+            [StakedPSYSV3, stkPSYS],
+            [StakedPSYSImpl, await getProxyImplementation(stkPSYS)],
+            [PegasysIncentivesController, incentivesController.address],
+            [
+              PegasysIncentivesControllerImpl,
+              await getProxyImplementation(incentivesController.address),
+            ],
+            [PegasysStakingHelper, stakingHelper.address],
+            [StakeUIHelper, stakeUIHelper.address],
+            [StakedTokenDataProvider, dataProvider.address],
+          ];
+          console.log(`\n- Deployed addresses`);
+          summary.forEach(([id, address]) => console.log(`\t${id}: ${address}`));
+
+          console.log(`\n✔️ Finished the deployment of the staking stack on ${network}. ✔️`);
+
+          if (report) {
+            await localBRE.run('deployment-report', { output: report });
+          }
+        },
+        async () =>
+          checkStakedPSYSDeployment((await getStakedPSYSProxy()).address, manifest, {
+            checkAllowance: vaultApproved,
+          })
+      );
+    }
+  );
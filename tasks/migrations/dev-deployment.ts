@@ -1,10 +1,28 @@
 import { task } from 'hardhat/config';
+import { utils } from 'ethers';
 import { eContractid } from '../../helpers/types';
 import { HardhatRuntimeEnvironment } from 'hardhat/types';
-import { StakedPSYS } from '../../types/StakedPSYS';
+import { deployMintableErc20 } from '../../helpers/contracts-accessors';
+import { waitForTx } from '../../helpers/misc-utils';
+
+// 0.01 PSYS per second for the stakers of the local stack
+const DEV_EMISSION_PER_SECOND = utils.parseEther('0.01').toString();
 
 task('dev-deployment', 'Deployment in hardhat').setAction(async (_, localBRE) => {
   const DRE: HardhatRuntimeEnvironment = await localBRE.run('set-dre');
+  const [deployer, admin] = await DRE.ethers.getSigners();
+  const deployerAddress = await deployer.getAddress();
+
+  console.log(`\n- ${eContractid.MintableErc20} PSYS deployment`);
+  const psysToken = await deployMintableErc20(['Pegasys', 'PSYS', 18]);
+  await waitForTx(await psysToken.mint(utils.parseEther('1000000')));
 
-  const psysStake = (await DRE.run(`deploy-${eContractid.StakedPSYS}`)) as StakedPSYS;
+  // The deployer holds the rewards and manages the emissions, the proxies need a distinct admin
+  await DRE.run('deploy-stack', {
+    psysAddress: psysToken.address,
+    vaultAddress: deployerAddress,
+    emissionManager: deployerAddress,
+    proxyAdmin: await admin.getAddress(),
+    emissionPerSecond: DEV_EMISSION_PER_SECOND,
+  });
 });
@@ -0,0 +1,20 @@
+import { task } from 'hardhat/config';
+
+import {
+  broadcastOfflineTransactions,
+  printOfflineTransactions,
+  readOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { DRE } from '../../helpers/misc-utils';
+
+task('broadcast', 'Verifies the transactions signed offline against their intent and sends them')
+  .addParam('input', 'JSON file with the transactions signed with sign-offline.')
+  .setAction(async ({ input }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const transactions = readOfflineTransactions(input);
+    console.log(`\n- Broadcasting to ${DRE.network.name}`);
+    printOfflineTransactions(transactions);
+
+    return broadcastOfflineTransactions(transactions);
+  });
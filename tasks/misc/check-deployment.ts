@@ -0,0 +1,61 @@
+import { task } from 'hardhat/config';
+
+import { eContractid } from '../../helpers/types';
+import { getTargetNetwork } from '../../helpers/misc-utils';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+import { getStakedPSYSProxy } from '../../helpers/contracts-accessors';
+import { checkStakedPSYSDeployment, printDeploymentChecks } from '../../helpers/deployment-checks';
+import { STAKED_PSYS_REVISION } from '../../helpers/constants';
+
+const { StakedPSYSV3 } = eContractid;
+
+task('check-deployment', `Audits a live ${StakedPSYSV3} proxy against the network configuration`)
+  .addOptionalParam('proxy', `The address of the ${StakedPSYSV3} proxy, instead of the DB.`)
+  .addOptionalParam('revision', 'The expected REVISION.', STAKED_PSYS_REVISION)
+  .addOptionalParam(
+    'minAllowance',
+    'The minimum allowance of the rewards vault to the proxy, instead of non zero.'
+  )
+  .addOptionalParam(
+    'vaultAddress',
+    'Use PegasysIncentivesVault address by param instead of configuration.'
+  )
+  .addOptionalParam('psysAddress', 'Use psysToken address by param instead of configuration.')
+  .addOptionalParam(
+    'emissionManager',
+    'Use the emission manager address by param instead of configuration.'
+  )
+  .addOptionalParam('proxyAdmin', 'Use the proxy admin address by param instead of configuration.')
+  .setAction(
+    async (
+      { proxy, revision, minAllowance, vaultAddress, psysAddress, emissionManager, proxyAdmin },
+      localBRE
+    ) => {
+      await localBRE.run('set-dre');
+      const network = getTargetNetwork();
+
+      const manifest = getStakeDeploymentManifest(network, {
+        stakedToken: psysAddress,
+        rewardToken: psysAddress,
+        rewardsVault: vaultAddress,
+        emissionManager,
+        proxyAdmin,
+      });
+      const proxyAddress = proxy || (await getStakedPSYSProxy()).address;
+
+      console.log(`\n- ${StakedPSYSV3} deployment check on ${network}`);
+      console.log(`\tProxy: ${proxyAddress}`);
+
+      const checks = await checkStakedPSYSDeployment(proxyAddress, manifest, {
+        revision,
+        minAllowance,
+      });
+      printDeploymentChecks(checks);
+
+      const failed = checks.filter(({ ok }) => !ok);
+      if (failed.length) {
+        throw new Error(`${failed.length} of ${checks.length} deployment checks failed`);
+      }
+      console.log(`\n✔️ All ${checks.length} deployment checks passed`);
+    }
+  );
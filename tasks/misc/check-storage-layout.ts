@@ -0,0 +1,23 @@
+import { task } from 'hardhat/config';
+
+import { checkStorageLayoutCompatibility } from '../../helpers/storage-layout';
+
+task('check-storage-layout', 'Diffs the storage layouts of two contracts before an upgrade')
+  .addParam('current', 'The name of the contract behind the proxy.')
+  .addParam('updated', 'The name of the contract the proxy is upgraded to.')
+  .setAction(async ({ current, updated }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    console.log(`\n- Storage layout of ${current} -> ${updated}`);
+
+    const issues = await checkStorageLayoutCompatibility(current, updated);
+    issues.forEach(({ breaking, message }) => console.log(`\t${breaking ? '✖' : '!'} ${message}`));
+
+    const breakingIssues = issues.filter(({ breaking }) => breaking);
+    if (breakingIssues.length) {
+      throw new Error(
+        `${updated} is not storage compatible with ${current}: ${breakingIssues.length} breaking changes`
+      );
+    }
+    console.log(`\n✔️ ${updated} keeps the storage layout of ${current}`);
+  });
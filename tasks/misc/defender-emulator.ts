@@ -0,0 +1,28 @@
+import { task, types } from 'hardhat/config';
+
+import { DRE } from '../../helpers/misc-utils';
+import { startDefenderRelayEmulator } from '../../helpers/defender-emulator';
+// @ts-ignore
+import { accounts } from '../../test-wallets';
+
+task('defender-emulator', 'Serves a local stand-in of the Defender relay API against the network')
+  .addOptionalParam('port', 'The port of the relay API.', 8546, types.int)
+  .addOptionalParam('account', 'Index of the test wallet the relay signs with.', 0, types.int)
+  .setAction(async ({ port, account }, localBRE) => {
+    await localBRE.run('set-dre');
+    if (!accounts[account]) {
+      throw new Error(`No test wallet at index ${account}`);
+    }
+
+    const { url, address } = await startDefenderRelayEmulator(
+      accounts[account].secretKey,
+      DRE.ethers.provider,
+      port
+    );
+    console.log(`\n- Defender relay emulator on ${DRE.network.name}`);
+    console.log(`\tRelayer: ${address}`);
+    console.log(`\tSet DEFENDER_RELAY_EMULATOR_URL=${url} and pass --signer defender to the tasks`);
+
+    // Serves until interrupted
+    await new Promise(() => undefined);
+  });
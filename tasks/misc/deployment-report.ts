@@ -0,0 +1,30 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+
+import { formatDeploymentReport, getDeploymentReport } from '../../helpers/deployment-report';
+
+task(
+  'deployment-report',
+  'Reports the contracts deployed on the network and the staking parameters'
+)
+  .addOptionalParam('output', 'File to write the report to, instead of the console.')
+  .addOptionalParam('format', 'markdown or json, json by default for .json outputs.')
+  .setAction(async ({ output, format }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const reportFormat = format || (output?.endsWith('.json') ? 'json' : 'markdown');
+    if (!['markdown', 'json'].includes(reportFormat)) {
+      throw new Error(`Unknown report format ${reportFormat}, use markdown or json`);
+    }
+
+    const report = await getDeploymentReport();
+    const content =
+      reportFormat === 'json' ? JSON.stringify(report, null, 2) : formatDeploymentReport(report);
+
+    if (!output) {
+      console.log(content);
+      return;
+    }
+    fs.writeFileSync(output, content);
+    console.log(`\n- Deployment report of ${report.network} written to ${output}`);
+  });
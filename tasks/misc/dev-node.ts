@@ -0,0 +1,174 @@
+import fs from 'fs';
+import { subtask, task, types } from 'hardhat/config';
+import { TASK_NODE, TASK_NODE_SERVER_READY } from 'hardhat/builtin-tasks/task-names';
+import { Signer, utils } from 'ethers';
+
+import { eContractid, tEthereumAddress } from '../../helpers/types';
+import { deployMintableErc20, getStakedPSYSV3 } from '../../helpers/contracts-accessors';
+import { DRE, getDb, increaseTimeAndMine, waitForTx } from '../../helpers/misc-utils';
+import { getNetworkConfig } from '../../helpers/network-registry';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { MintableErc20 } from '../../types/MintableErc20';
+// @ts-ignore
+import { accounts } from '../../test-wallets';
+
+const {
+  StakedPSYSV3,
+  PegasysIncentivesController,
+  PegasysStakingHelper,
+  StakeUIHelper,
+  StakedTokenDataProvider,
+} = eContractid;
+
+// 0.01 PSYS per second, so rewards are visible after a few blocks
+const DEV_EMISSION_PER_SECOND = utils.parseEther('0.01').toString();
+const VAULT_FUNDS = utils.parseEther('1000000');
+const WALLET_FUNDS = utils.parseEther('10000');
+
+const DEV_NODE_SEED = 'dev-node:seed';
+
+// Set by dev-node, so a plain `hardhat node` starts on a blank chain
+let devNodeOutput: string | undefined;
+
+const stake = async (psysToken: MintableErc20, wallet: Signer, amount: string) => {
+  const stakedPSYS = await getStakedPSYSV3();
+  await waitForTx(await psysToken.connect(wallet).approve(stakedPSYS.address, MAX_UINT_AMOUNT));
+  await waitForTx(
+    await stakedPSYS
+      .connect(wallet)
+      .stake(await wallet.getAddress(), utils.parseEther(amount).toString())
+  );
+};
+
+const cooldown = async (wallet: Signer) =>
+  await waitForTx(await (await getStakedPSYSV3()).connect(wallet).cooldown());
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (args, hre, runSuper) => {
+  await runSuper(args);
+  if (!devNodeOutput) {
+    return;
+  }
+  await hre.run(DEV_NODE_SEED, {
+    output: devNodeOutput,
+    rpcUrl: `http://${args.address === '0.0.0.0' ? '127.0.0.1' : args.address}:${args.port}`,
+  });
+});
+
+// Runs on the network of the task, so the seeding is tested without starting the server
+subtask(DEV_NODE_SEED, 'Deploys the staking stack and seeds the positions of the dev node')
+  .addParam('output', 'The JSON file the addresses are written to.')
+  .addParam('rpcUrl', 'The JSON-RPC url written to the file.')
+  .setAction(async ({ output, rpcUrl }, hre) => {
+    await hre.run('set-dre');
+
+    const [
+      deployer,
+      proxyAdmin,
+      staker,
+      smallStaker,
+      coolingDown,
+      unstakeWindow,
+      delegator,
+      rewarded,
+      holder,
+    ] = await DRE.ethers.getSigners();
+    const deployerAddress = await deployer.getAddress();
+
+    console.log(`\n- ${eContractid.MintableErc20} PSYS deployment`);
+    const psysToken = await deployMintableErc20(['Pegasys', 'PSYS', 18]);
+
+    // The deployer is the rewards vault, deploy-stack approves it to the stake and incentives controller
+    await waitForTx(await psysToken.mint(VAULT_FUNDS));
+    await hre.run('deploy-stack', {
+      psysAddress: psysToken.address,
+      vaultAddress: deployerAddress,
+      emissionManager: deployerAddress,
+      proxyAdmin: await proxyAdmin.getAddress(),
+      emissionPerSecond: DEV_EMISSION_PER_SECOND,
+    });
+
+    console.log('\n- Seeding positions');
+    for (const wallet of [
+      staker,
+      smallStaker,
+      coolingDown,
+      unstakeWindow,
+      delegator,
+      rewarded,
+      holder,
+    ]) {
+      await waitForTx(await psysToken.connect(wallet).mint(WALLET_FUNDS));
+    }
+
+    // Positions opened before the cooldown period elapses reach the unstake window or accrue rewards
+    await stake(psysToken, rewarded, '5000');
+    await stake(psysToken, unstakeWindow, '800');
+    await cooldown(unstakeWindow);
+    await increaseTimeAndMine(
+      Number((await (await getStakedPSYSV3()).COOLDOWN_SECONDS()).toString()) + 1
+    );
+
+    await stake(psysToken, staker, '1000');
+    await stake(psysToken, smallStaker, '25');
+    await stake(psysToken, coolingDown, '500');
+    await cooldown(coolingDown);
+    await stake(psysToken, delegator, '1500');
+    await waitForTx(
+      await (await getStakedPSYSV3()).connect(delegator).delegate(await staker.getAddress())
+    );
+
+    const roles: [string, Signer][] = [
+      ['deployer, rewards vault and emission manager', deployer],
+      ['proxy admin', proxyAdmin],
+      ['staker', staker],
+      ['small staker', smallStaker],
+      ['mid cooldown', coolingDown],
+      ['in unstake window', unstakeWindow],
+      ['delegator to staker', delegator],
+      ['accrued rewards', rewarded],
+      ['PSYS holder without stake', holder],
+    ];
+    const getAddress = (id: string): tEthereumAddress =>
+      getDb().get(`${id}.${DRE.network.name}.address`).value();
+
+    const devEnvironment = {
+      chainId: getNetworkConfig(DRE.network.name).chainId,
+      rpcUrl,
+      contracts: {
+        PSYS: psysToken.address,
+        ...Object.fromEntries(
+          [
+            StakedPSYSV3,
+            PegasysIncentivesController,
+            PegasysStakingHelper,
+            StakeUIHelper,
+            StakedTokenDataProvider,
+          ].map((id) => [id, getAddress(id)])
+        ),
+      },
+      accounts: await Promise.all(
+        roles.map(async ([role, wallet], index) => ({
+          role,
+          address: await wallet.getAddress(),
+          privateKey: accounts[index].secretKey,
+        }))
+      ),
+    };
+
+    fs.writeFileSync(output, JSON.stringify(devEnvironment, null, 2));
+    console.log(`\n✔️ Development environment ready, addresses written to ${output} ✔️`);
+    devEnvironment.accounts.forEach(({ role, address }) => console.log(`\t${role}: ${address}`));
+    return devEnvironment;
+  });
+
+task('dev-node', 'Starts a hardhat node with the staking stack deployed and seeded positions')
+  .addOptionalParam('output', 'The JSON file the addresses are written to.', 'dev-environment.json')
+  .addOptionalParam('hostname', 'The host of the JSON-RPC server.')
+  .addOptionalParam('port', 'The port of the JSON-RPC server.', 8545, types.int)
+  .setAction(async ({ output, hostname, port }, localBRE) => {
+    if (localBRE.network.name !== 'hardhat') {
+      throw new Error('dev-node only runs on the hardhat network, use --network hardhat');
+    }
+    devNodeOutput = output;
+    await localBRE.run(TASK_NODE, { hostname, port });
+  });
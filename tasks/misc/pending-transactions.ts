@@ -0,0 +1,73 @@
+import { task, types } from 'hardhat/config';
+
+import {
+  cancelPendingTransaction,
+  getPendingTransactions,
+  getPendingTransactionStatus,
+  removePendingTransaction,
+  resumePendingTransaction,
+} from '../../helpers/tx-sender';
+import { DRE } from '../../helpers/misc-utils';
+import { SIGNER_PARAM_DESCRIPTION, resolveSigner } from '../../helpers/signers';
+
+task(
+  'pending-transactions',
+  'Lists the transactions an interrupted run left pending, and resumes or cancels them'
+)
+  .addOptionalParam('nonce', 'Only handle the transaction with this nonce.', undefined, types.int)
+  .addFlag('resume', 'Wait for the pending transactions, broadcasting again the dropped ones.')
+  .addFlag('cancel', 'Replace the pending transactions with empty transfers to their sender.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ nonce, resume, cancel, signer: signerSpec }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    if (resume && cancel) {
+      throw new Error('Pass either --resume or --cancel');
+    }
+
+    const pendingTransactions = getPendingTransactions().filter(
+      (pending) => nonce === undefined || pending.nonce === nonce
+    );
+    console.log(`\n- Pending transactions on ${DRE.network.name}`);
+    if (!pendingTransactions.length) {
+      console.log('\tNone');
+      return;
+    }
+
+    // The senders are looked up in the configured accounts, unless a signer is passed
+    const signers = await Promise.all(
+      (signerSpec ? [await resolveSigner(signerSpec)] : await DRE.ethers.getSigners()).map(
+        async (signer) => ({ signer, address: await signer.getAddress() })
+      )
+    );
+    for (const pending of pendingTransactions) {
+      const status = await getPendingTransactionStatus(pending);
+      console.log(
+        `\t[nonce ${pending.nonce}] ${pending.from} ${
+          pending.to ? `to ${pending.to}` : 'creating a contract'
+        }: ${status}, last sent ${pending.hashes[pending.hashes.length - 1]}`
+      );
+
+      if (status === 'replaced') {
+        removePendingTransaction(pending);
+        console.log('\t\tThe nonce was used by another transaction, record removed');
+        continue;
+      }
+      if (!resume && !cancel) {
+        continue;
+      }
+
+      const { signer } =
+        signers.find(({ address }) => address.toLowerCase() === pending.from.toLowerCase()) || {};
+      if (!signer) {
+        throw new Error(
+          `No account configured for ${pending.from}, pass it with --signer or set its PRIVATE_KEY`
+        );
+      }
+      const cancelling = cancel && status !== 'mined';
+      const { transactionHash } = cancelling
+        ? await cancelPendingTransaction(signer, pending)
+        : await resumePendingTransaction(signer, pending);
+      console.log(`\t\t${cancelling ? 'Cancelled' : 'Confirmed'} by ${transactionHash}`);
+    }
+  });
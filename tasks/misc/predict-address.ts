@@ -0,0 +1,17 @@
+import { task } from 'hardhat/config';
+
+import { predictContractAddress } from '../../helpers/contracts-helpers';
+
+task('predict-address', 'Predicts the address of a contract deployed through the Create2Factory')
+  .addParam('contract', 'The name of the contract.')
+  .addParam('salt', 'The salt of the deployment.')
+  .addOptionalParam('args', 'JSON array of constructor arguments.', '[]')
+  .addOptionalParam('factory', 'The address of the Create2Factory, instead of the DB.')
+  .setAction(async ({ contract, salt, args, factory }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const address = await predictContractAddress(contract, JSON.parse(args), salt, factory);
+
+    console.log(`${contract} with salt "${salt}" will be deployed to ${address}`);
+    return address;
+  });
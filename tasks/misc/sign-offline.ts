@@ -0,0 +1,30 @@
+import { task } from 'hardhat/config';
+
+import {
+  printOfflineTransactions,
+  readOfflineTransactions,
+  signOfflineTransactions,
+  writeOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { resolveSigner } from '../../helpers/signers';
+
+task('sign-offline', 'Signs exported transactions with a keystore, without network access')
+  .addParam('input', 'JSON file with the transactions exported with --unsigned.')
+  .addParam('signer', 'keystore:<file>, mnemonic[:<hd path>] or private-key.')
+  .addOptionalParam('output', 'File to write the signed transactions to, the input by default.')
+  .setAction(async ({ input, signer, output }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const transactions = readOfflineTransactions(input);
+    console.log(`\n- Transactions to sign`);
+    printOfflineTransactions(transactions);
+
+    const wallet = await resolveSigner(signer);
+    const address = await wallet.getAddress();
+    if (!transactions.some(({ from }) => from === address)) {
+      throw new Error(`None of the transactions of ${input} is sent from ${address}`);
+    }
+
+    console.log(`\n- Signed by ${address}`);
+    writeOfflineTransactions(output || input, await signOfflineTransactions(transactions, wallet));
+  });
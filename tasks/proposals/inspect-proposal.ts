@@ -0,0 +1,72 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+import { BigNumber, utils } from 'ethers';
+
+import { getGovernance } from '../../helpers/governance-proposal';
+import { decodeProposalPayload, printDecodedProposal } from '../../helpers/proposal-decoder';
+import { DRE } from '../../helpers/misc-utils';
+import { eContractid, eProposalState, iProposalPayload } from '../../helpers/types';
+
+// Read by position, as the `values` key collides with Array.prototype.values in ethers results
+const toProposalPayload = ([
+  executor,
+  targets,
+  values,
+  signatures,
+  calldatas,
+  withDelegatecalls,
+]: ReadonlyArray<any>): iProposalPayload => ({
+  executor,
+  targets,
+  values: values.map((value: BigNumber) => value.toString()),
+  signatures,
+  calldatas,
+  withDelegatecalls,
+});
+
+task('inspect-proposal', 'Decodes the actions of a governance proposal into readable calls')
+  .addOptionalParam(
+    'proposalId',
+    'Id of the proposal submitted to governance.',
+    undefined,
+    types.int
+  )
+  .addOptionalParam('governance', 'Governance address, the one of the network by default.')
+  .addOptionalParam('payload', 'JSON file with the payload written by the proposal tasks.')
+  .addOptionalParam('calldata', 'Calldata of a governance create() transaction.')
+  .setAction(async ({ proposalId, governance, payload, calldata }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    if ([proposalId, payload, calldata].filter((source) => source !== undefined).length !== 1) {
+      throw new Error('Pass one of --proposal-id, --payload or --calldata');
+    }
+
+    let proposalPayload: iProposalPayload;
+    if (proposalId !== undefined) {
+      const gov = await getGovernance(governance);
+      const proposal = await gov.getProposalById(proposalId);
+      const state: eProposalState = await gov.getProposalState(proposalId);
+
+      console.log(`\n- Proposal ${proposalId} on ${gov.address}`);
+      console.log(`\tState: ${eProposalState[state]}`);
+      console.log(`\tCreator: ${proposal.creator}`);
+      console.log(`\tIPFS hash: ${proposal.ipfsHash}`);
+      // Skips the id and creator of the proposal
+      proposalPayload = toProposalPayload(proposal.slice(2));
+    } else if (payload) {
+      console.log(`\n- Proposal payload of ${payload}`);
+      proposalPayload = JSON.parse(fs.readFileSync(payload, 'utf8'));
+    } else {
+      console.log(`\n- Proposal created by the calldata`);
+      const governanceInterface = new utils.Interface(
+        (await DRE.artifacts.readArtifact(eContractid.IPegasysGovernanceV2)).abi
+      );
+      proposalPayload = toProposalPayload(
+        governanceInterface.decodeFunctionData('create', calldata)
+      );
+    }
+
+    const { executor, actions } = await decodeProposalPayload(proposalPayload);
+    printDecodedProposal(executor, actions);
+    return actions;
+  });
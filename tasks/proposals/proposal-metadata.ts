@@ -0,0 +1,41 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+
+import { createProposalMetadata } from '../../helpers/proposal-metadata';
+import { iProposalPayload } from '../../helpers/types';
+
+task(
+  'proposal-metadata',
+  'Renders the description of a proposal payload and computes its IPFS hash, without uploading'
+)
+  .addParam('name', 'Name of the proposal record, written under proposals/<network>/.')
+  .addParam('payload', 'JSON file with the payload written by the proposal tasks.')
+  .addParam('title', 'Title of the proposal.')
+  .addParam('author', 'Author of the proposal.')
+  .addParam('summary', 'Summary of the proposal, or a markdown file with it.')
+  .addOptionalParam('discussions', 'Link to the forum discussion.', '')
+  .addOptionalParam('template', 'Markdown template with {{placeholders}}, the default otherwise.')
+  .setAction(async ({ name, payload, title, author, summary, discussions, template }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const proposalPayload: iProposalPayload = JSON.parse(fs.readFileSync(payload, 'utf8'));
+    const { record, recordPath, descriptionPath } = await createProposalMetadata(
+      name,
+      {
+        title,
+        author,
+        discussions,
+        summary: summary.endsWith('.md') ? fs.readFileSync(summary, 'utf8').trim() : summary,
+      },
+      proposalPayload,
+      template && fs.readFileSync(template, 'utf8')
+    );
+
+    console.log(`\n- Proposal metadata ${name}`);
+    console.log(`\tDescription: ${descriptionPath}`);
+    console.log(`\tRecord: ${recordPath}`);
+    console.log(`\tCIDv0: ${record.ipfsCid}`);
+    console.log(`\tbytes32: ${record.ipfsHash}`);
+    console.log(`\tPin the description as is, and propose with --metadata ${name}`);
+    return record;
+  });
@@ -0,0 +1,50 @@
+import { task } from 'hardhat/config';
+import { utils } from 'ethers';
+
+import { getProposalVoteStatus } from '../../helpers/governance-voting';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { eProposalState } from '../../helpers/types';
+
+task(
+  'proposal-status',
+  'Shows the state of a proposal, and the voting power and vote of an account'
+)
+  .addParam('proposalId', 'Id of the proposal.')
+  .addOptionalParam('governance', 'Governance address, the one of the network by default.')
+  .addOptionalParam('voter', 'Account to show the vote of, the signer by default.')
+  .addOptionalParam('stakedPsys', 'stkPSYS address, the one of the DB by default.')
+  .setAction(async ({ proposalId, governance, voter, stakedPsys }, localBRE) => {
+    await localBRE.run('set-dre');
+
+    const status = await getProposalVoteStatus(
+      governance,
+      proposalId,
+      voter || (await (await getTxSigner()).getAddress()),
+      stakedPsys
+    );
+
+    console.log(`\n- Proposal ${proposalId}`);
+    console.log(`\tState: ${eProposalState[status.state]}`);
+    console.log(`\tVoting blocks: ${status.startBlock} to ${status.endBlock}`);
+    console.log(
+      `\tVotes: ${utils.formatEther(status.forVotes)} for, ${utils.formatEther(
+        status.againstVotes
+      )} against`
+    );
+    console.log(`\tVoter: ${status.voter}`);
+    console.log(
+      `\tstkPSYS voting power at block ${status.startBlock}: ${
+        status.votingPower ? utils.formatEther(status.votingPower) : 'unknown'
+      }`
+    );
+    console.log(
+      `\tVote: ${
+        status.vote
+          ? `${status.vote.support ? 'for' : 'against'} with ${utils.formatEther(
+              status.vote.votingPower
+            )}`
+          : 'none'
+      }`
+    );
+    return status;
+  });
@@ -1,23 +1,17 @@
 import { task } from 'hardhat/config';
 import { DRE } from '../../helpers/misc-utils';
-import { Signer } from 'ethers';
-import { getDefenderRelaySigner } from '../../helpers/defender-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('proposal-stk-extensions', 'Deploy implementations and create proposal')
   .addOptionalParam('stkPSYSimpl')
   .addOptionalParam('stkbptimpl')
-  .addFlag('defender')
-  .setAction(async ({ defender, stkPSYSimpl, stkbptimpl }, localBRE: any) => {
+  .addFlag('dryRun', 'Simulate the proposal on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ stkPSYSimpl, stkbptimpl, dryRun, gasPrice, signer }, localBRE: any) => {
     await localBRE.run('set-dre');
-
-    let deployer: Signer;
-
-    [deployer] = await DRE.ethers.getSigners();
-
-    if (defender) {
-      const { signer } = await getDefenderRelaySigner();
-      deployer = signer;
-    }
+    await useSigner(signer);
 
     const {
       PSYS_TOKEN = '0x7fc66500c84a76ad7e9c93437bfc5ac33e2ddae9',
@@ -33,22 +27,24 @@ task('proposal-stk-extensions', 'Deploy implementations and create proposal')
     const PSYS_STAKE = '0x4da27a545c0c5B758a6BA100e3a049001de870f5';
     const STK_BPT_STAKE = '0xa1116930326D21fB917d5A27F1E9943A9595fb47';
 
-    if (!stkPSYSimpl) {
-      stkPSYSimpl = await DRE.run('deploy-staked-psys-rev3', { defender: !!defender });
-    }
-    if (!stkbptimpl) {
-      stkbptimpl = await DRE.run('deploy-staked-bpt-rev2', { defender: !!defender });
-    }
-
-    await DRE.run('propose-extension', {
-      stkPSYSProxy: PSYS_STAKE,
-      stkPSYSImpl: stkPSYSimpl,
-      stkBptProxy: STK_BPT_STAKE,
-      stkBptImpl: stkbptimpl,
-      pegasysGovernance: PSYS_GOVERNANCE_V2,
-      longExecutor: LONG_EXECUTOR,
-      ipfsHash: IPFS_HASH,
-      defender: !!defender,
+    await withDryRun(dryRun, gasPrice, async () => {
+      if (!stkPSYSimpl) {
+        stkPSYSimpl = await DRE.run('deploy-staked-psys-rev3', { signer });
+      }
+      if (!stkbptimpl) {
+        stkbptimpl = await DRE.run('deploy-staked-bpt-rev2', { signer });
+      }
+
+      await DRE.run('propose-extension', {
+        stkPSYSProxy: PSYS_STAKE,
+        stkPSYSImpl: stkPSYSimpl,
+        stkBptProxy: STK_BPT_STAKE,
+        stkBptImpl: stkbptimpl,
+        pegasysGovernance: PSYS_GOVERNANCE_V2,
+        longExecutor: LONG_EXECUTOR,
+        ipfsHash: IPFS_HASH,
+        signer,
+      });
     });
 
     return {
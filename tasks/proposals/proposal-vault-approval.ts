@@ -1,21 +1,17 @@
 import { task } from 'hardhat/config';
-import { Signer } from 'ethers';
-import { getDefenderRelaySigner } from '../../helpers/defender-utils';
 import { DRE } from '../../helpers/misc-utils';
+import { withDryRun } from '../../helpers/dry-run';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('proposal-vault-approval', 'Create some proposals and votes')
   .addParam('ipfsHash')
-  .addFlag('defender')
-  .setAction(async ({ defender, ipfsHash }, localBRE: any) => {
+  .addFlag('dryRun', 'Simulate the proposal on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ ipfsHash, dryRun, gasPrice, signer }, localBRE: any) => {
     await localBRE.run('set-dre');
+    await useSigner(signer);
 
-    let proposer: Signer;
-    [proposer] = await DRE.ethers.getSigners();
-
-    if (defender) {
-      const { signer } = await getDefenderRelaySigner();
-      proposer = signer;
-    }
     const {
       PSYS_TOKEN = '0x7fc66500c84a76ad7e9c93437bfc5ac33e2ddae9',
       PSYS_GOVERNANCE_V2 = '0xEC568fffba86c094cf06b22134B23074DFE2252c',
@@ -25,14 +21,16 @@ task('proposal-vault-approval', 'Create some proposals and votes')
       STK_BPT_STAKE = '0xa1116930326D21fB917d5A27F1E9943A9595fb47',
     } = process.env;
 
-    await DRE.run('propose-vault-approval', {
-      psysProxy: PSYS_TOKEN,
-      pegasysGovernance: PSYS_GOVERNANCE_V2,
-      rewardsVaultController: REWARDS_CONTROLLER,
-      shortExecutor: SHORT_EXECUTOR,
-      stkPSYSProxy: PSYS_STAKE,
-      stkBptProxy: STK_BPT_STAKE,
-      ipfsHash,
-      defender,
-    });
+    await withDryRun(dryRun, gasPrice, () =>
+      DRE.run('propose-vault-approval', {
+        psysProxy: PSYS_TOKEN,
+        pegasysGovernance: PSYS_GOVERNANCE_V2,
+        rewardsVaultController: REWARDS_CONTROLLER,
+        shortExecutor: SHORT_EXECUTOR,
+        stkPSYSProxy: PSYS_STAKE,
+        stkBptProxy: STK_BPT_STAKE,
+        ipfsHash,
+        signer,
+      })
+    );
   });
@@ -1,13 +1,22 @@
 import { task } from 'hardhat/config';
+import { StakedTokenBptRev2__factory, StakedTokenV3Rev3__factory } from '../../types';
+import { BigNumber, Contract } from 'ethers';
 import {
-  IPegasysGovernanceV2__factory,
-  StakedTokenBptRev2__factory,
-  StakedTokenV3Rev3,
-  StakedTokenV3Rev3__factory,
-} from '../../types';
-import { Signer } from 'ethers';
-import { getDefenderRelaySigner } from '../../helpers/defender-utils';
-import { DRE } from '../../helpers/misc-utils';
+  buildProposalPayload,
+  buildUpgradeAction,
+  encodeProposalCreation,
+  getGovernance,
+  printProposalActions,
+  submitProposal,
+} from '../../helpers/governance-proposal';
+import { recordProposalSubmission, resolveProposalIpfsHash } from '../../helpers/proposal-metadata';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { withDryRun } from '../../helpers/dry-run';
+import {
+  buildOfflineTransactions,
+  writeOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('propose-extension', 'Create some proposals and votes')
   .addParam('stkPSYSProxy')
@@ -16,91 +25,127 @@ task('propose-extension', 'Create some proposals and votes')
   .addParam('stkBptImpl')
   .addParam('pegasysGovernance')
   .addParam('longExecutor')
-  .addParam('ipfsHash')
-  .addFlag('defender')
+  .addOptionalParam('ipfsHash', 'CIDv0 or bytes32 of the proposal description.')
+  .addOptionalParam('metadata', 'Name of the proposal record with the description to propose.')
+  .addOptionalParam(
+    'unsigned',
+    'File to export the create() transaction to, instead of sending it.'
+  )
+  .addFlag('dryRun', 'Simulate the proposal on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
   .setAction(
     async (
       {
         pegasysGovernance,
         longExecutor,
-        defender,
         stkPSYSProxy,
         stkPSYSImpl,
         stkBptProxy,
         stkBptImpl,
         ipfsHash,
+        metadata,
+        unsigned,
+        dryRun,
+        gasPrice,
+        signer,
       },
       localBRE: any
     ) => {
       await localBRE.run('set-dre');
+      await useSigner(signer);
 
-      let proposer: Signer;
-      [proposer] = await DRE.ethers.getSigners();
+      let proposalsCount: BigNumber | undefined;
+      let gov: Contract | undefined;
 
-      if (defender) {
-        const { signer } = await getDefenderRelaySigner();
-        proposer = signer;
-      }
+      await withDryRun(
+        dryRun,
+        gasPrice,
+        async () => {
+          const proposer = await getTxSigner();
 
-      if (!stkPSYSImpl) {
-        throw '[hh-task][propose-extension] stkPSYSImpl param is missing';
-      }
-      if (!stkBptImpl) {
-        throw '[hh-task][propose-extension] stkBptImpl param is missing';
-      }
-      if (!longExecutor) {
-        throw '[hh-task][propose-extension] longExecutor param is missing';
-      }
-      if (!stkPSYSProxy) {
-        throw '[hh-task][propose-extension] stkPSYSProxy param is missing';
-      }
-      if (!stkBptProxy) {
-        throw '[hh-task][propose-extension] stkBptProxy param is missing';
-      }
-      if (!ipfsHash) {
-        throw '[hh-task][propose-extension] ipfsHash param is missing';
-      }
+          if (!stkPSYSImpl) {
+            throw '[hh-task][propose-extension] stkPSYSImpl param is missing';
+          }
+          if (!stkBptImpl) {
+            throw '[hh-task][propose-extension] stkBptImpl param is missing';
+          }
+          if (!longExecutor) {
+            throw '[hh-task][propose-extension] longExecutor param is missing';
+          }
+          if (!stkPSYSProxy) {
+            throw '[hh-task][propose-extension] stkPSYSProxy param is missing';
+          }
+          if (!stkBptProxy) {
+            throw '[hh-task][propose-extension] stkBptProxy param is missing';
+          }
 
-      // Calldata for stkPSYS implementation
-      const payloadstkPSYS = StakedTokenV3Rev3__factory.connect(
-        stkPSYSImpl,
-        proposer
-      ).interface.encodeFunctionData('initialize');
-      const callDatastkPSYS = DRE.ethers.utils.defaultAbiCoder.encode(
-        ['address', 'bytes'],
-        [stkPSYSImpl, payloadstkPSYS]
-      );
+          // Calldata for stkPSYS implementation
+          const payloadstkPSYS = StakedTokenV3Rev3__factory.connect(
+            stkPSYSImpl,
+            proposer
+          ).interface.encodeFunctionData('initialize');
 
-      // Calldata for StkBpt implementation
-      // Empty arguments for initializer due they are not used
-      const payloadStkBpt = StakedTokenBptRev2__factory.connect(
-        stkBptImpl,
-        proposer
-      ).interface.encodeFunctionData('initialize', ['', '', '18']);
-      const callDataStkBpt = DRE.ethers.utils.defaultAbiCoder.encode(
-        ['address', 'bytes'],
-        [stkBptImpl, payloadStkBpt]
-      );
-      const executeSignature = 'upgradeToAndCall(address,bytes)';
-      const gov = await IPegasysGovernanceV2__factory.connect(pegasysGovernance, proposer);
+          // Calldata for StkBpt implementation
+          // Empty arguments for initializer due they are not used
+          const payloadStkBpt = StakedTokenBptRev2__factory.connect(
+            stkBptImpl,
+            proposer
+          ).interface.encodeFunctionData('initialize', ['', '', '18']);
+
+          const actions = [
+            await buildUpgradeAction(stkPSYSProxy, stkPSYSImpl, payloadstkPSYS),
+            await buildUpgradeAction(stkBptProxy, stkBptImpl, payloadStkBpt),
+          ];
+          const payload = buildProposalPayload(actions, longExecutor);
+          printProposalActions(actions, payload);
 
-      try {
-        const tx = await gov.create(
-          longExecutor,
-          [stkPSYSProxy, stkBptProxy],
-          ['0', '0'],
-          [executeSignature, executeSignature],
-          [callDatastkPSYS, callDataStkBpt],
-          [false, false],
-          ipfsHash,
-          { gasLimit: 1000000 }
-        );
-        console.log('- Proposal submitted to Governance');
-        await tx.wait();
-      } catch (error) {
-        throw error;
-      }
+          const proposalIpfsHash = resolveProposalIpfsHash(payload, { ipfsHash, metadata });
+          if (unsigned) {
+            const creation = await encodeProposalCreation(
+              payload,
+              proposalIpfsHash,
+              pegasysGovernance
+            );
+            writeOfflineTransactions(
+              unsigned,
+              await buildOfflineTransactions([
+                {
+                  from: await proposer.getAddress(),
+                  ...creation,
+                  description: 'Create the stkPSYS and stkBPT upgrade proposal',
+                },
+              ])
+            );
+            return;
+          }
 
-      console.log('Your Proposal has been submitted');
+          gov = await getGovernance(pegasysGovernance);
+          proposalsCount = await gov.getProposalsCount();
+
+          const proposalId = await submitProposal(
+            payload,
+            proposalIpfsHash,
+            proposer,
+            pegasysGovernance,
+            { gasLimit: 1000000 }
+          );
+          console.log(`- Proposal ${proposalId.toString()} submitted to Governance`);
+          if (metadata) {
+            recordProposalSubmission(metadata, gov.address, proposalId.toString());
+          }
+        },
+        // Exported proposals are created once broadcast
+        async () =>
+          unsigned
+            ? []
+            : [
+                {
+                  description: 'Proposal created on governance',
+                  ok:
+                    !!gov && !!proposalsCount && (await gov.getProposalsCount()).gt(proposalsCount),
+                },
+              ]
+      );
     }
   );
@@ -1,9 +1,22 @@
 import { task } from 'hardhat/config';
-import { IPegasysGovernanceV2__factory } from '../../types';
-import { Signer } from 'ethers';
-import { getDefenderRelaySigner } from '../../helpers/defender-utils';
-import { DRE } from '../../helpers/misc-utils';
+import { BigNumber, Contract } from 'ethers';
+import {
+  buildProposalPayload,
+  buildVaultApprovalAction,
+  encodeProposalCreation,
+  getGovernance,
+  printProposalActions,
+  submitProposal,
+} from '../../helpers/governance-proposal';
+import { recordProposalSubmission, resolveProposalIpfsHash } from '../../helpers/proposal-metadata';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { withDryRun } from '../../helpers/dry-run';
+import {
+  buildOfflineTransactions,
+  writeOfflineTransactions,
+} from '../../helpers/offline-transactions';
 import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
 
 task('propose-vault-approval', 'Create some proposals and votes')
   .addParam('rewardsVaultController')
@@ -12,61 +25,108 @@ task('propose-vault-approval', 'Create some proposals and votes')
   .addParam('stkBptProxy')
   .addParam('pegasysGovernance')
   .addParam('shortExecutor')
-  .addParam('ipfsHash')
-  .addFlag('defender')
+  .addOptionalParam('ipfsHash', 'CIDv0 or bytes32 of the proposal description.')
+  .addOptionalParam('metadata', 'Name of the proposal record with the description to propose.')
+  .addOptionalParam(
+    'unsigned',
+    'File to export the create() transaction to, instead of sending it.'
+  )
+  .addFlag('dryRun', 'Simulate the proposal on the hardhat network and report it.')
+  .addOptionalParam('gasPrice', 'Gas price in gwei used to estimate the dry run cost.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
   .setAction(
     async (
       {
         rewardsVaultController,
         pegasysGovernance,
         shortExecutor,
-        defender,
         stkPSYSProxy,
         stkBptProxy,
         psysProxy,
         ipfsHash,
+        metadata,
+        unsigned,
+        dryRun,
+        gasPrice,
+        signer,
       },
       localBRE: any
     ) => {
       await localBRE.run('set-dre');
+      await useSigner(signer);
 
-      let proposer: Signer;
-      [proposer] = await DRE.ethers.getSigners();
+      let proposalsCount: BigNumber | undefined;
+      let gov: Contract | undefined;
 
-      if (defender) {
-        const { signer } = await getDefenderRelaySigner();
-        proposer = signer;
-      }
+      await withDryRun(
+        dryRun,
+        gasPrice,
+        async () => {
+          const proposer = await getTxSigner();
 
-      // Calldata for stkPSYS approval
-      const payloadForstkPSYSApproval = DRE.ethers.utils.defaultAbiCoder.encode(
-        ['address', 'address', 'uint256'],
-        [psysProxy, stkPSYSProxy, MAX_UINT_AMOUNT]
-      );
-      // Calldata for StkBpt approval
-      const payloadForStkBPTApproval = DRE.ethers.utils.defaultAbiCoder.encode(
-        ['address', 'address', 'uint256'],
-        [psysProxy, stkBptProxy, MAX_UINT_AMOUNT]
-      );
+          const actions = [
+            await buildVaultApprovalAction(
+              rewardsVaultController,
+              psysProxy,
+              stkPSYSProxy,
+              MAX_UINT_AMOUNT
+            ),
+            await buildVaultApprovalAction(
+              rewardsVaultController,
+              psysProxy,
+              stkBptProxy,
+              MAX_UINT_AMOUNT
+            ),
+          ];
+          const payload = buildProposalPayload(actions, shortExecutor);
+          printProposalActions(actions, payload);
 
-      const executeSignature = 'approve(address,address,uint256)';
-      const gov = await IPegasysGovernanceV2__factory.connect(pegasysGovernance, proposer);
+          const proposalIpfsHash = resolveProposalIpfsHash(payload, { ipfsHash, metadata });
+          if (unsigned) {
+            const creation = await encodeProposalCreation(
+              payload,
+              proposalIpfsHash,
+              pegasysGovernance
+            );
+            writeOfflineTransactions(
+              unsigned,
+              await buildOfflineTransactions([
+                {
+                  from: await proposer.getAddress(),
+                  ...creation,
+                  description: 'Create the vault approval proposal',
+                },
+              ])
+            );
+            return;
+          }
 
-      try {
-        const tx = await gov.create(
-          shortExecutor,
-          [rewardsVaultController, rewardsVaultController],
-          ['0', '0'],
-          [executeSignature, executeSignature],
-          [payloadForstkPSYSApproval, payloadForStkBPTApproval],
-          [false, false],
-          ipfsHash,
-          { gasLimit: 1000000 }
-        );
-        await tx.wait();
-        console.log('- Proposal submitted to Governance');
-      } catch (error) {
-        throw error;
-      }
+          gov = await getGovernance(pegasysGovernance);
+          proposalsCount = await gov.getProposalsCount();
+
+          const proposalId = await submitProposal(
+            payload,
+            proposalIpfsHash,
+            proposer,
+            pegasysGovernance,
+            { gasLimit: 1000000 }
+          );
+          console.log(`- Proposal ${proposalId.toString()} submitted to Governance`);
+          if (metadata) {
+            recordProposalSubmission(metadata, gov.address, proposalId.toString());
+          }
+        },
+        // Exported proposals are created once broadcast
+        async () =>
+          unsigned
+            ? []
+            : [
+                {
+                  description: 'Proposal created on governance',
+                  ok:
+                    !!gov && !!proposalsCount && (await gov.getProposalsCount()).gt(proposalsCount),
+                },
+              ]
+      );
     }
   );
@@ -0,0 +1,27 @@
+import fs from 'fs';
+import { task } from 'hardhat/config';
+
+import { relayVoteSignatures } from '../../helpers/governance-voting';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { iVoteSignature } from '../../helpers/types';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+task('relay-vote', 'Submits the votes signed with sign-vote, paying their gas')
+  .addParam('input', 'JSON file with the signatures collected by sign-vote.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ input, signer }, localBRE) => {
+    await localBRE.run('set-dre');
+    await useSigner(signer);
+
+    const signatures: iVoteSignature[] = JSON.parse(fs.readFileSync(input, 'utf8'));
+    console.log(`\n- Relaying ${signatures.length} vote signatures`);
+
+    const result = await relayVoteSignatures(signatures, await getTxSigner());
+    result.relayed.forEach(({ signature: { voter, proposalId, support }, txHash }) =>
+      console.log(`\t✔️ ${voter} ${support ? 'for' : 'against'} proposal ${proposalId}: ${txHash}`)
+    );
+    result.skipped.forEach(({ signature: { voter, proposalId }, reason }) =>
+      console.log(`\t✖ ${voter} on proposal ${proposalId}: ${reason}`)
+    );
+    return result;
+  });
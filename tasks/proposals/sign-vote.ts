@@ -0,0 +1,33 @@
+import fs from 'fs';
+import { task, types } from 'hardhat/config';
+
+import { getGovernance } from '../../helpers/governance-proposal';
+import { signVote } from '../../helpers/governance-voting';
+import { iVoteSignature } from '../../helpers/types';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+task('sign-vote', 'Signs a vote offline, to be submitted by signature with relay-vote')
+  .addParam('proposalId', 'Id of the proposal.')
+  .addParam('support', 'true to vote for the proposal, false against it.', undefined, types.boolean)
+  .addOptionalParam('governance', 'Governance address, the one of the network by default.')
+  .addOptionalParam('output', 'JSON file collecting the signatures, appended to if it exists.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ proposalId, support, governance, output, signer }, localBRE) => {
+    await localBRE.run('set-dre');
+    await useSigner(signer);
+
+    // Only resolves the address, signing doesn't reach the network
+    const { address } = await getGovernance(governance);
+    const signature = await signVote(address, proposalId, support);
+    console.log(`\n- Vote ${support ? 'for' : 'against'} proposal ${proposalId} signed`);
+    console.log(JSON.stringify(signature, null, 2));
+
+    if (output) {
+      const signatures: iVoteSignature[] = fs.existsSync(output)
+        ? JSON.parse(fs.readFileSync(output, 'utf8'))
+        : [];
+      fs.writeFileSync(output, JSON.stringify([...signatures, signature], null, 2));
+      console.log(`\tAdded to ${output}, ${signatures.length + 1} signatures`);
+    }
+    return signature;
+  });
@@ -0,0 +1,32 @@
+import { task, types } from 'hardhat/config';
+
+import { getGovernance } from '../../helpers/governance-proposal';
+import { getProposalVoteStatus, getVoteRejection } from '../../helpers/governance-voting';
+import { getTxSigner } from '../../helpers/tx-sender';
+import { SIGNER_PARAM_DESCRIPTION, useSigner } from '../../helpers/signers';
+
+task('vote', 'Votes on a governance proposal with the voting power of the signer')
+  .addParam('proposalId', 'Id of the proposal.')
+  .addParam('support', 'true to vote for the proposal, false against it.', undefined, types.boolean)
+  .addOptionalParam('governance', 'Governance address, the one of the network by default.')
+  .addOptionalParam('signer', SIGNER_PARAM_DESCRIPTION)
+  .setAction(async ({ proposalId, support, governance, signer }, localBRE) => {
+    await localBRE.run('set-dre');
+    await useSigner(signer);
+
+    const voter = await getTxSigner();
+    const status = await getProposalVoteStatus(governance, proposalId, await voter.getAddress());
+    const rejection = getVoteRejection(status);
+    if (rejection) {
+      throw new Error(rejection);
+    }
+
+    console.log(`\n- Voting ${support ? 'for' : 'against'} proposal ${proposalId}`);
+    console.log(`\tVoter: ${status.voter}`);
+    console.log(`\tstkPSYS voting power: ${status.votingPower ?? 'unknown'}`);
+    const tx = await (await getGovernance(governance))
+      .connect(voter)
+      .submitVote(proposalId, support);
+    console.log(`\tVoted in ${(await tx.wait()).transactionHash}`);
+    return getProposalVoteStatus(governance, proposalId, status.voter);
+  });
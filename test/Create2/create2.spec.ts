@@ -0,0 +1,122 @@
+const { expect } = require('chai');
+
+import { Wallet, utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  deployContract,
+  getContract,
+  getCreate2Factory,
+  getProxyAdmin,
+  getProxyImplementation,
+  getProxyInitializeData,
+  insertContractAddressInDb,
+  predictContractAddress,
+} from '../../helpers/contracts-helpers';
+import { DRE, getDb } from '../../helpers/misc-utils';
+import { resolveSigner, useSigner } from '../../helpers/signers';
+import { eContractid, iDeploymentRecord } from '../../helpers/types';
+import { MintableErc20 } from '../../types/MintableErc20';
+import { InitializableAdminUpgradeabilityProxy } from '../../types/InitializableAdminUpgradeabilityProxy';
+
+const ARGS = ['Create2', 'CR2', 18];
+
+makeSuite('CREATE2 deployments', (testEnv: TestEnv) => {
+  it('Deploys to the predicted address and records the salt', async () => {
+    const salt = 'create2';
+    const predictedAddress = await predictContractAddress(eContractid.MintableErc20, ARGS, salt);
+
+    const token = await deployContract<MintableErc20>(
+      eContractid.MintableErc20,
+      ARGS,
+      'create2',
+      undefined,
+      salt
+    );
+    const record: iDeploymentRecord = getDb()
+      .get(`${eContractid.MintableErc20}-create2.${DRE.network.name}`)
+      .value();
+
+    expect(token.address).to.be.equal(predictedAddress);
+    expect(await token.symbol()).to.be.equal('CR2');
+    expect(record.create2Factory).to.be.equal((await getCreate2Factory()).address);
+    expect(record.constructorArgs).to.be.deep.equal(ARGS);
+  });
+
+  it('Fails when the salt was already used for the same contract', async () => {
+    const salt = 'create2-reused';
+    await deployContract(eContractid.MintableErc20, ARGS, 'create2', undefined, salt);
+
+    let error: Error | undefined;
+    try {
+      await deployContract(eContractid.MintableErc20, ARGS, 'create2', undefined, salt);
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.contain('already deployed');
+  });
+
+  it('Initializes a salted proxy in its deployment transaction', async () => {
+    const { StakedPSYSV3, users } = testEnv;
+    const implementation = await getContract(
+      eContractid.StakedPSYSV3,
+      await getProxyImplementation(StakedPSYSV3.address)
+    );
+
+    const proxy = await deployContract<InitializableAdminUpgradeabilityProxy>(
+      eContractid.InitializableAdminUpgradeabilityProxy,
+      [],
+      'create2',
+      undefined,
+      'create2-proxy',
+      undefined,
+      await getProxyInitializeData(implementation, users[0].address)
+    );
+
+    expect(await getProxyImplementation(proxy.address)).to.be.equal(implementation.address);
+    expect(await getProxyAdmin(proxy.address)).to.be.equal(users[0].address);
+  });
+
+  it('Deploys the factory from an unused account only', async () => {
+    const { deployer } = testEnv;
+    const factory = await getCreate2Factory();
+    const wallet = Wallet.createRandom();
+    process.env.SIGNER_PRIVATE_KEY = wallet.privateKey;
+    // The used account only sent a transfer, so nothing was deployed at its first address
+    const usedAccount = Wallet.createRandom().address;
+    for (const to of [wallet.address, usedAccount]) {
+      await deployer.signer.sendTransaction({ to, value: utils.parseEther('1') });
+    }
+    const usedSigner = await resolveSigner(`impersonate:${usedAccount}`);
+    await usedSigner.sendTransaction({ to: usedAccount });
+
+    try {
+      const address: string = await DRE.run(`deploy-${eContractid.Create2Factory}`, {
+        signer: 'private-key',
+      });
+      expect(address).to.be.equal(utils.getContractAddress({ from: wallet.address, nonce: 0 }));
+      expect(
+        getDb().get(`${eContractid.Create2Factory}.${DRE.network.name}`).value().address
+      ).to.be.equal(address);
+
+      // A second run finds the factory at the address of the account
+      expect(
+        await DRE.run(`deploy-${eContractid.Create2Factory}`, { signer: 'private-key' })
+      ).to.be.equal(address);
+
+      let error: Error | undefined;
+      try {
+        await DRE.run(`deploy-${eContractid.Create2Factory}`, {
+          signer: `impersonate:${usedAccount}`,
+        });
+      } catch (e) {
+        error = e as Error;
+      }
+      expect(error?.message).to.contain('Deploy it from an unused account');
+    } finally {
+      delete process.env.SIGNER_PRIVATE_KEY;
+      await useSigner();
+      await insertContractAddressInDb(eContractid.Create2Factory, factory.address);
+    }
+  });
+});
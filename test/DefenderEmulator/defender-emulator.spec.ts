@@ -0,0 +1,68 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import { getGovernance } from '../../helpers/governance-proposal';
+import { deployGovernanceSimulation } from '../../helpers/governance-simulation';
+import { getDefenderRelaySigner } from '../../helpers/defender-utils';
+import {
+  iDefenderRelayEmulator,
+  startDefenderRelayEmulator,
+} from '../../helpers/defender-emulator';
+import { DRE } from '../../helpers/misc-utils';
+// @ts-ignore
+import { accounts } from '../../test-wallets';
+
+makeSuite('Defender relay emulator', (testEnv: TestEnv) => {
+  let emulator: iDefenderRelayEmulator;
+
+  before(async () => {
+    // users[3] signs as the relayer, the test wallets start with the deployer and the vault
+    emulator = await startDefenderRelayEmulator(accounts[5].secretKey, DRE.ethers.provider);
+    process.env.DEFENDER_RELAY_EMULATOR_URL = emulator.url;
+  });
+
+  after(async () => {
+    delete process.env.DEFENDER_RELAY_EMULATOR_URL;
+    await emulator.close();
+  });
+
+  it('Signs messages and typed data with the relayer key', async () => {
+    const { users } = testEnv;
+    const { signer, address } = await getDefenderRelaySigner();
+    const domain = { name: 'Emulator', chainId: DRE.network.config.chainId };
+    const types = { Message: [{ name: 'content', type: 'string' }] };
+
+    expect(address).to.be.equal(users[3].address);
+    expect(utils.verifyMessage('hello', await signer.signMessage('hello'))).to.be.equal(address);
+    expect(
+      utils.verifyTypedData(
+        domain,
+        types,
+        { content: 'hello' },
+        await (signer as any)._signTypedData(domain, types, { content: 'hello' })
+      )
+    ).to.be.equal(address);
+  });
+
+  it('Submits a proposal through the relay with --signer defender', async () => {
+    const { psysToken, StakedPSYSV3, users } = testEnv;
+    const { governance, shortExecutor } = await deployGovernanceSimulation();
+
+    await DRE.run('propose-vault-approval', {
+      rewardsVaultController: psysToken.address,
+      psysProxy: psysToken.address,
+      stkPSYSProxy: StakedPSYSV3.address,
+      stkBptProxy: users[1].address,
+      pegasysGovernance: governance,
+      shortExecutor,
+      ipfsHash: utils.formatBytes32String(''),
+      signer: 'defender',
+    });
+
+    const gov = await getGovernance(governance);
+    const proposal = await gov.getProposalById((await gov.getProposalsCount()).sub(1));
+    expect(proposal.creator).to.be.equal(users[3].address);
+    expect(proposal.executor).to.be.equal(shortExecutor);
+  });
+});
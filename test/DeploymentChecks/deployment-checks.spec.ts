@@ -0,0 +1,144 @@
+const { expect } = require('chai');
+
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import { checkPrivilegedRoles, checkStakedPSYSDeployment } from '../../helpers/deployment-checks';
+import { changeProxyAdmin, getProxyAdmin } from '../../helpers/contracts-helpers';
+import { COOLDOWN_SECONDS, UNSTAKE_WINDOW, ZERO_ADDRESS } from '../../helpers/constants';
+import { iStakeDeploymentManifest } from '../../helpers/types';
+import { DRE, getTargetNetwork } from '../../helpers/misc-utils';
+import { getStakeDeploymentManifest } from '../../helpers/deployment-manifest';
+
+const getTestManifest = ({
+  psysToken,
+  rewardsVault,
+  deployer,
+  users,
+}: TestEnv): iStakeDeploymentManifest => ({
+  stakedToken: psysToken.address,
+  rewardToken: psysToken.address,
+  cooldownSeconds: COOLDOWN_SECONDS,
+  unstakeWindow: UNSTAKE_WINDOW,
+  rewardsVault: rewardsVault.address,
+  emissionManager: deployer.address,
+  distributionDuration: (1000 * 60 * 60).toString(),
+  governance: ZERO_ADDRESS,
+  proxyAdmin: users[0].address,
+});
+
+makeSuite('StakedPSYSV3 deployment checks', (testEnv: TestEnv) => {
+  it('Passes every check for the test deployment', async () => {
+    const checks = await checkStakedPSYSDeployment(
+      testEnv.StakedPSYSV3.address,
+      getTestManifest(testEnv)
+    );
+
+    expect(checks.filter(({ ok }) => !ok)).to.be.deep.equal([]);
+  });
+
+  it('Fails the checks that do not match the configuration', async () => {
+    const { users } = testEnv;
+
+    const checks = await checkStakedPSYSDeployment(
+      testEnv.StakedPSYSV3.address,
+      { ...getTestManifest(testEnv), cooldownSeconds: '1', proxyAdmin: users[1].address },
+      { revision: '3' }
+    );
+
+    expect(checks.filter(({ ok }) => !ok).map(({ description }) => description)).to.be.deep.equal([
+      'Proxy admin',
+      'REVISION',
+      'COOLDOWN_SECONDS',
+    ]);
+  });
+
+  it('Fails the allowance check when the rewards vault did not approve the proxy', async () => {
+    const { users } = testEnv;
+
+    const checks = await checkStakedPSYSDeployment(testEnv.StakedPSYSV3.address, {
+      ...getTestManifest(testEnv),
+      rewardsVault: users[2].address,
+    });
+
+    expect(checks.filter(({ ok }) => !ok).map(({ description }) => description)).to.be.deep.equal([
+      'REWARDS_VAULT',
+      'Rewards vault allowance to the proxy',
+    ]);
+  });
+
+  it('Checks the deployment with the addresses the network configuration leaves out', async () => {
+    const { psysToken, rewardsVault, deployer, users } = testEnv;
+
+    let error: Error | undefined;
+    try {
+      await DRE.run('check-deployment', {
+        psysAddress: psysToken.address,
+        vaultAddress: rewardsVault.address,
+        emissionManager: deployer.address,
+        proxyAdmin: users[0].address,
+      });
+    } catch (e) {
+      error = e as Error;
+    }
+
+    // The setup deploys with its own distribution duration, so only DISTRIBUTION_END differs
+    expect(error?.message).to.match(/^1 of \d+ deployment checks failed$/);
+  });
+
+  it('Checksums the addresses of the manifest', async () => {
+    const { rewardsVault, deployer } = testEnv;
+
+    const manifest = getStakeDeploymentManifest(
+      getTargetNetwork(),
+      {
+        rewardsVault: rewardsVault.address.toLowerCase(),
+        emissionManager: deployer.address.toLowerCase(),
+      },
+      ['rewardsVault', 'emissionManager']
+    );
+
+    expect(manifest.rewardsVault).to.be.equal(rewardsVault.address);
+    expect(manifest.emissionManager).to.be.equal(deployer.address);
+  });
+
+  it('Flags the privileged roles held by EOAs', async () => {
+    const { users, deployer, StakedPSYSV3 } = testEnv;
+
+    const checks = await checkPrivilegedRoles(
+      { StakedPSYSV3: StakedPSYSV3.address },
+      { admin: users[0].address, emissionManager: deployer.address }
+    );
+
+    expect(checks.filter(({ ok }) => !ok).map(({ description }) => description)).to.be.deep.equal([
+      'StakedPSYSV3 proxy admin held by a contract',
+      'StakedPSYSV3 EMISSION_MANAGER held by a contract',
+    ]);
+  });
+
+  it('Moves the proxy admin to a contract', async () => {
+    const { users, psysToken, StakedPSYSV3 } = testEnv;
+
+    // Any contract stands for the governance executor
+    await changeProxyAdmin(StakedPSYSV3.address, psysToken.address, users[0].signer);
+
+    expect(await getProxyAdmin(StakedPSYSV3.address)).to.be.equal(psysToken.address);
+    const [adminCheck, holderCheck] = await checkPrivilegedRoles(
+      { StakedPSYSV3: StakedPSYSV3.address },
+      { admin: psysToken.address, emissionManager: users[0].address }
+    );
+    expect(adminCheck.ok).to.be.equal(true);
+    expect(holderCheck.ok).to.be.equal(true);
+  });
+
+  it('Refuses to change the admin from another account', async () => {
+    const { users, StakedPSYSV3 } = testEnv;
+
+    let error: Error | undefined;
+    try {
+      await changeProxyAdmin(StakedPSYSV3.address, users[2].address, users[1].signer);
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.contain('is not the admin');
+  });
+});
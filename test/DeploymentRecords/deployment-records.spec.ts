@@ -0,0 +1,82 @@
+import { utils } from 'ethers';
+
+const { expect } = require('chai');
+
+import { makeSuite } from '../helpers/make-suite';
+import { DRE, getDb } from '../../helpers/misc-utils';
+import { deployContract, insertContractAddressInDb } from '../../helpers/contracts-helpers';
+import { eContractid, iDeploymentRecord } from '../../helpers/types';
+import { MintableErc20 } from '../../types/MintableErc20';
+
+const SLUG = 'deployment-records';
+const RECORD_ID = `${eContractid.MintableErc20}-${SLUG}`;
+
+const getRecord = (): iDeploymentRecord => getDb().get(`${RECORD_ID}.${DRE.network.name}`).value();
+
+const deployRecordedErc20 = async () =>
+  await deployContract<MintableErc20>(eContractid.MintableErc20, ['Record', 'REC', 18], SLUG);
+
+makeSuite('Deployment records', () => {
+  it('Stores the constructor arguments, receipt and compiler data of a deployment', async () => {
+    const token = await deployRecordedErc20();
+    const receipt = await token.deployTransaction.wait();
+    const artifact = await DRE.artifacts.readArtifact(eContractid.MintableErc20);
+
+    const record = getRecord();
+
+    expect(record.address).to.be.equal(token.address);
+    expect(record.deployer).to.be.equal(token.deployTransaction.from);
+    expect(record.contractName).to.be.equal(eContractid.MintableErc20);
+    expect(record.constructorArgs).to.be.deep.equal(['Record', 'REC', 18]);
+    expect(record.txHash).to.be.equal(token.deployTransaction.hash);
+    expect(record.blockNumber).to.be.equal(receipt.blockNumber);
+    expect(record.gasUsed).to.be.equal(receipt.gasUsed.toString());
+    expect(record.compilerVersion).to.not.be.undefined;
+    expect(record.bytecodeHash).to.be.equal(utils.keccak256(artifact.bytecode));
+  });
+
+  it('Appends the previous deployment to the history on redeployment', async () => {
+    const previousToken = await deployRecordedErc20();
+    const token = await deployRecordedErc20();
+
+    const { history = [], ...record } = getRecord();
+
+    expect(record.address).to.be.equal(token.address);
+    expect(history[history.length - 1].address).to.be.equal(previousToken.address);
+    expect(history.map(({ address }) => address)).to.not.include(token.address);
+  });
+
+  it('Restores a previous deployment from the history when its address is inserted', async () => {
+    const previousToken = await deployRecordedErc20();
+    const token = await deployRecordedErc20();
+
+    await insertContractAddressInDb(<eContractid>RECORD_ID, previousToken.address);
+
+    const { history = [], ...record } = getRecord();
+
+    expect(record.address).to.be.equal(previousToken.address);
+    expect(record.txHash).to.be.equal(previousToken.deployTransaction.hash);
+    expect(history[history.length - 1].address).to.be.equal(token.address);
+  });
+
+  it('Records a deployment under an explicit id without touching the default one', async () => {
+    const token = await deployRecordedErc20();
+    const { history = [] } = getRecord();
+
+    const implementation = await deployContract<MintableErc20>(
+      eContractid.MintableErc20,
+      ['Record', 'REC', 18],
+      SLUG,
+      undefined,
+      undefined,
+      `${RECORD_ID}Impl`
+    );
+    const implementationRecord: iDeploymentRecord = getDb()
+      .get(`${RECORD_ID}Impl.${DRE.network.name}`)
+      .value();
+
+    expect(implementationRecord.address).to.be.equal(implementation.address);
+    expect(getRecord().address).to.be.equal(token.address);
+    expect(getRecord().history || []).to.be.deep.equal(history);
+  });
+});
@@ -0,0 +1,78 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  deployContract,
+  getProxyAdmin,
+  getProxyImplementation,
+  setDeploymentVerified,
+} from '../../helpers/contracts-helpers';
+import { formatDeploymentReport, getDeploymentReport } from '../../helpers/deployment-report';
+import { COOLDOWN_SECONDS } from '../../helpers/constants';
+import { eContractid } from '../../helpers/types';
+import { MintableErc20 } from '../../types/MintableErc20';
+
+const SLUG = 'deployment-report';
+const REPORT_ID = `${eContractid.MintableErc20}-${SLUG}`;
+
+makeSuite('Deployment report', (testEnv: TestEnv) => {
+  let token: MintableErc20;
+
+  before(async () => {
+    token = await deployContract<MintableErc20>(
+      eContractid.MintableErc20,
+      ['Report', 'RPT', 18],
+      SLUG
+    );
+  });
+
+  it('Reports the constructor arguments by name, the gas cost and the verification', async () => {
+    const receipt = await token.deployTransaction.wait();
+
+    const unverified = (await getDeploymentReport()).contracts.find(({ id }) => id === REPORT_ID);
+    await setDeploymentVerified(token.address);
+    const contract = (await getDeploymentReport()).contracts.find(({ id }) => id === REPORT_ID);
+
+    expect(unverified?.verified).to.be.equal(undefined);
+    expect(contract?.verified).to.be.equal(true);
+    expect(contract?.address).to.be.equal(token.address);
+    expect(contract?.implementation).to.be.equal(undefined);
+    expect(contract?.constructorArgs).to.be.deep.equal({
+      name: 'Report',
+      symbol: 'RPT',
+      decimals: 18,
+    });
+    expect(contract?.gasCost).to.be.equal(
+      utils.formatEther(receipt.gasUsed.mul(receipt.effectiveGasPrice))
+    );
+  });
+
+  it('Reports the proxy slots and the staking parameters in human units', async () => {
+    const { StakedPSYSV3 } = testEnv;
+
+    const { contracts, staking } = await getDeploymentReport();
+    const proxy = contracts.find(({ id }) => id === eContractid.StakedPSYSV3);
+
+    expect(proxy?.implementation).to.include(await getProxyImplementation(StakedPSYSV3.address));
+    expect(proxy?.proxyAdmin).to.be.equal(await getProxyAdmin(StakedPSYSV3.address));
+    expect(staking?.cooldownDays).to.be.equal((Number(COOLDOWN_SECONDS) / 86400).toFixed(4));
+    expect(staking?.distributionEnd).to.be.equal(
+      new Date((await StakedPSYSV3.DISTRIBUTION_END()).toNumber() * 1000).toISOString()
+    );
+  });
+
+  it('Formats the report as markdown sorted by contract id', async () => {
+    const report = await getDeploymentReport();
+
+    const markdown = formatDeploymentReport(report);
+
+    expect(markdown).to.include(
+      `| ${REPORT_ID} | ${eContractid.MintableErc20} | ${token.address} |`
+    );
+    expect(markdown).to.include(`| Cooldown | ${report.staking?.cooldownDays} days |`);
+    expect(report.contracts.map(({ id }) => id)).to.be.deep.equal(
+      report.contracts.map(({ id }) => id).sort()
+    );
+  });
+});
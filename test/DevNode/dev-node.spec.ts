@@ -0,0 +1,49 @@
+const { expect } = require('chai');
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { makeSuite } from '../helpers/make-suite';
+import { getStakedPSYSV3 } from '../../helpers/contracts-accessors';
+import { DEFAULT_DB_PATH, DRE, setDbPath } from '../../helpers/misc-utils';
+import { eContractid, eDelegationType } from '../../helpers/types';
+
+const OUTPUT_FILE = path.join(os.tmpdir(), 'dev-node-spec.environment.json');
+const DB_FILE = path.join(os.tmpdir(), 'dev-node-spec.deployed-contracts.json');
+
+makeSuite('Dev node', () => {
+  before(() => {
+    // The seeding deploys a whole stack, kept out of the deployments of the test setup
+    fs.writeFileSync(DB_FILE, '{}');
+    setDbPath(DB_FILE);
+  });
+
+  after(() => {
+    setDbPath(DEFAULT_DB_PATH);
+    [OUTPUT_FILE, DB_FILE].forEach((file) => fs.existsSync(file) && fs.unlinkSync(file));
+  });
+
+  it('Deploys the stack, seeds the positions and writes the environment file', async () => {
+    await DRE.run('dev-node:seed', { output: OUTPUT_FILE, rpcUrl: 'http://127.0.0.1:8545' });
+    const environment = JSON.parse(fs.readFileSync(OUTPUT_FILE, 'utf8'));
+    const stakedPSYS = await getStakedPSYSV3();
+    const account = (role: string) =>
+      environment.accounts.find((account: { role: string }) => account.role === role).address;
+
+    expect(environment.rpcUrl).to.be.equal('http://127.0.0.1:8545');
+    expect(environment.contracts[eContractid.StakedPSYSV3]).to.be.equal(stakedPSYS.address);
+    expect(environment.accounts.length).to.be.equal(9);
+    expect((await stakedPSYS.balanceOf(account('staker'))).toString()).to.be.equal(
+      DRE.ethers.utils.parseEther('1000').toString()
+    );
+    expect((await stakedPSYS.stakersCooldowns(account('mid cooldown'))).toString()).to.not.be.equal(
+      '0'
+    );
+    expect(
+      await stakedPSYS.getDelegateeByType(
+        account('delegator to staker'),
+        eDelegationType.VotingPower
+      )
+    ).to.be.equal(account('staker'));
+  });
+});
@@ -1,6 +1,6 @@
 import { BigNumber, BigNumberish } from 'ethers';
 import { comparatorEngine, CompareRules } from '../../helpers/comparator-engine';
-import { getNormalizedDistribution } from '../../helpers/ray-math';
+import { getNormalizedDistribution } from '../../../helpers/ray-math';
 import { PegasysDistributionManager } from '../../../types/PegasysDistributionManager';
 import { StakedPSYS } from '../../../types/StakedPSYS';
 import { PegasysIncentivesController } from '../../../types/PegasysIncentivesController';
@@ -1,6 +1,6 @@
 import { BigNumber } from 'ethers';
 
-import { BigNumberValue, valueToZDBigNumber } from '../../helpers/ray-math/bignumber';
+import { BigNumberValue, valueToZDBigNumber } from '../../../helpers/ray-math/bignumber';
 
 export function getRewards(
   balance: BigNumberValue,
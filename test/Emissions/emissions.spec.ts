@@ -0,0 +1,83 @@
+const { expect } = require('chai');
+
+import { BigNumber, utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  getConfigureAssetsInput,
+  getDistributionManager,
+  getEmissionPerSecondForApr,
+  getEmissionsPerSecondForBudget,
+  getEmissionsPlan,
+  SECONDS_PER_YEAR,
+} from '../../helpers/emissions';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { waitForTx } from '../../helpers/misc-utils';
+
+makeSuite('Emissions configuration', (testEnv: TestEnv) => {
+  it('Computes the emission of a target APR', async () => {
+    const totalStaked = utils.parseEther('1000');
+
+    expect(getEmissionPerSecondForApr(totalStaked, '5').toString()).to.be.equal(
+      totalStaked.mul(5).div(100).div(SECONDS_PER_YEAR).toString()
+    );
+    expect(getEmissionPerSecondForApr(totalStaked, '0.25').toString()).to.be.equal(
+      totalStaked.mul(25).div(10000).div(SECONDS_PER_YEAR).toString()
+    );
+  });
+
+  it('Splits a budget by the stake of each asset', async () => {
+    const emissions = getEmissionsPerSecondForBudget(
+      [BigNumber.from(100), BigNumber.from(300)],
+      BigNumber.from(4000),
+      10
+    );
+
+    expect(emissions.map((emission) => emission.toString())).to.be.deep.equal(['100', '300']);
+  });
+
+  it('Configures the StakedPSYSV3 emission of a target APR', async () => {
+    const { StakedPSYSV3, psysToken, users, deployer } = testEnv;
+    await waitForTx(
+      await psysToken.connect(users[2].signer).approve(StakedPSYSV3.address, MAX_UINT_AMOUNT)
+    );
+    await waitForTx(
+      await StakedPSYSV3.connect(users[2].signer).stake(users[2].address, utils.parseEther('10'))
+    );
+
+    const distributionManager = getDistributionManager(StakedPSYSV3.address);
+    const [plan] = await getEmissionsPlan(distributionManager, [StakedPSYSV3.address], {
+      apr: '10',
+    });
+
+    expect(plan.totalStaked).to.be.equal((await StakedPSYSV3.totalSupply()).toString());
+    expect(plan.emissionPerSecond).to.be.equal(
+      getEmissionPerSecondForApr(BigNumber.from(plan.totalStaked), '10').toString()
+    );
+    const [, [, indexIn30Days]] = plan.projectedIndexes;
+    expect(BigNumber.from(indexIn30Days).gt(plan.index)).to.be.equal(true);
+
+    await waitForTx(
+      await distributionManager
+        .connect(deployer.signer)
+        .configureAssets(getConfigureAssetsInput([plan]))
+    );
+    const { emissionPerSecond } = await distributionManager.assets(StakedPSYSV3.address);
+    expect(emissionPerSecond.toString()).to.be.equal(plan.emissionPerSecond);
+  });
+
+  it('Requires either a target APR or a budget', async () => {
+    const { StakedPSYSV3 } = testEnv;
+
+    let error: Error | undefined;
+    try {
+      await getEmissionsPlan(getDistributionManager(StakedPSYSV3.address), [StakedPSYSV3.address], {
+        apr: '10',
+        budget: '1000',
+      });
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.contain('either a target APR or a budget');
+  });
+});
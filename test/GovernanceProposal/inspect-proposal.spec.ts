@@ -0,0 +1,100 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildProposalPayload,
+  buildUpgradeAction,
+  buildVaultApprovalAction,
+  getGovernance,
+  submitProposal,
+} from '../../helpers/governance-proposal';
+import { deployGovernanceSimulation } from '../../helpers/governance-simulation';
+import { decodeProposalPayload } from '../../helpers/proposal-decoder';
+import { getProxyImplementation } from '../../helpers/contracts-helpers';
+import { DRE } from '../../helpers/misc-utils';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { iDecodedProposalAction, iProposalPayload } from '../../helpers/types';
+
+makeSuite('Proposal inspector', (testEnv: TestEnv) => {
+  it('Decodes the actions of a submitted proposal', async () => {
+    const { StakedPSYSV3, psysToken, deployer, users } = testEnv;
+    const { governance } = await deployGovernanceSimulation();
+    const implementation = await getProxyImplementation(StakedPSYSV3.address);
+    const payload = buildProposalPayload(
+      [
+        await buildUpgradeAction(
+          StakedPSYSV3.address,
+          implementation,
+          StakedPSYSV3.interface.encodeFunctionData('initialize')
+        ),
+        await buildVaultApprovalAction(
+          psysToken.address,
+          psysToken.address,
+          StakedPSYSV3.address,
+          MAX_UINT_AMOUNT
+        ),
+      ],
+      users[0].address
+    );
+    const proposalId = await submitProposal(
+      payload,
+      utils.formatBytes32String(''),
+      deployer.signer,
+      governance
+    );
+
+    const [upgrade, approval]: iDecodedProposalAction[] = await DRE.run('inspect-proposal', {
+      proposalId: proposalId.toNumber(),
+      governance,
+    });
+
+    expect(upgrade.targetLabel).to.be.equal(`stkPSYS @${StakedPSYSV3.address}`);
+    expect(upgrade.call).to.match(
+      new RegExp(`^upgradeToAndCall\\(.*${implementation}, initialize\\(\\)\\)$`)
+    );
+    expect(upgrade.warnings).to.be.empty;
+    expect(approval.call).to.be.equal(
+      `approve(psys @${psysToken.address}, stkPSYS @${StakedPSYSV3.address}, MAX)`
+    );
+  });
+
+  it('Flags delegatecalls, targets without code and unknown functions', async () => {
+    const { users } = testEnv;
+    const payload: iProposalPayload = {
+      executor: users[0].address,
+      targets: [users[1].address],
+      values: ['0'],
+      signatures: ['migrate(uint256)'],
+      calldatas: [utils.defaultAbiCoder.encode(['uint256'], [1])],
+      withDelegatecalls: [true],
+    };
+
+    const {
+      actions: [action],
+    } = await decodeProposalPayload(payload);
+
+    expect(action.call).to.be.equal('migrate(1)');
+    expect(action.warnings.join('\n')).to.include('delegatecall');
+    expect(action.warnings.join('\n')).to.include('no code at the target');
+    expect(action.warnings.join('\n')).to.include('function not found');
+  });
+
+  it('Decodes the calldata of a create() transaction', async () => {
+    const { users, psysToken } = testEnv;
+    const governance = await getGovernance(users[0].address);
+    const calldata = governance.interface.encodeFunctionData('create', [
+      users[0].address,
+      [psysToken.address],
+      ['0'],
+      ['transfer(address,uint256)'],
+      [utils.defaultAbiCoder.encode(['address', 'uint256'], [users[1].address, 10])],
+      [false],
+      utils.formatBytes32String(''),
+    ]);
+
+    const [action]: iDecodedProposalAction[] = await DRE.run('inspect-proposal', { calldata });
+
+    expect(action.call).to.be.equal(`transfer(${users[1].address}, 10)`);
+  });
+});
@@ -0,0 +1,95 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildCallAction,
+  buildConfigureAssetsAction,
+  buildProposalPayload,
+  buildUpgradeAction,
+  buildVaultApprovalAction,
+} from '../../helpers/governance-proposal';
+import { getProxyAdmin, getProxyImplementation } from '../../helpers/contracts-helpers';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { eContractid } from '../../helpers/types';
+
+makeSuite('Governance proposal builder', (testEnv: TestEnv) => {
+  it('Encodes a proxy upgrade executed by the proxy admin', async () => {
+    const { StakedPSYSV3 } = testEnv;
+    const implementation = await getProxyImplementation(StakedPSYSV3.address);
+    const initializeData = StakedPSYSV3.interface.encodeFunctionData('initialize');
+
+    const action = await buildUpgradeAction(StakedPSYSV3.address, implementation, initializeData);
+
+    expect(action.signature).to.be.equal('upgradeToAndCall(address,bytes)');
+    expect(action.calldata).to.be.equal(
+      utils.defaultAbiCoder.encode(['address', 'bytes'], [implementation, initializeData])
+    );
+    expect(action.executor).to.be.equal(await getProxyAdmin(StakedPSYSV3.address));
+    expect(buildProposalPayload([action]).executor).to.be.equal(action.executor);
+  });
+
+  it('Encodes configureAssets executed by the emission manager', async () => {
+    const { StakedPSYSV3 } = testEnv;
+    const input = [
+      {
+        emissionPerSecond: '100',
+        totalStaked: '0',
+        underlyingAsset: StakedPSYSV3.address,
+      },
+    ];
+
+    const action = await buildConfigureAssetsAction(StakedPSYSV3.address, input);
+
+    expect(action.signature).to.be.equal('configureAssets((uint128,uint256,address)[])');
+    expect(action.calldata).to.be.equal(
+      utils.defaultAbiCoder.encode(
+        ['tuple(uint128 emissionPerSecond, uint256 totalStaked, address underlyingAsset)[]'],
+        [input]
+      )
+    );
+    expect(action.executor).to.be.equal(await StakedPSYSV3.EMISSION_MANAGER());
+  });
+
+  it('Rejects functions and arguments missing from the artifact ABI', async () => {
+    const { psysToken, users } = testEnv;
+    const getError = async (method: string, args: any[]) => {
+      try {
+        await buildCallAction(eContractid.MintableErc20, psysToken.address, method, args);
+      } catch (error) {
+        return error as Error;
+      }
+    };
+
+    expect((await getError('burnAll', []))?.message).to.include(
+      'Invalid action MintableErc20.burnAll'
+    );
+    expect((await getError('transfer', [users[0].address]))?.message).to.include(
+      'Invalid action MintableErc20.transfer'
+    );
+  });
+
+  it('Rejects actions that need different executors', async () => {
+    const { StakedPSYSV3, psysToken, users } = testEnv;
+    const upgrade = await buildUpgradeAction(
+      StakedPSYSV3.address,
+      await getProxyImplementation(StakedPSYSV3.address)
+    );
+    const approval = await buildVaultApprovalAction(
+      users[0].address,
+      psysToken.address,
+      StakedPSYSV3.address,
+      MAX_UINT_AMOUNT
+    );
+
+    expect(() =>
+      buildProposalPayload([upgrade, { ...approval, executor: users[1].address }])
+    ).to.throw('The actions require different executors');
+    expect(() => buildProposalPayload([upgrade], users[1].address)).to.throw(
+      `The actions can only be executed by ${upgrade.executor}`
+    );
+    expect(buildProposalPayload([approval], users[1].address).executor).to.be.equal(
+      users[1].address
+    );
+  });
+});
@@ -0,0 +1,104 @@
+const { expect } = require('chai');
+
+import fs from 'fs';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildProposalPayload,
+  buildVaultApprovalAction,
+  getGovernance,
+  submitProposal,
+} from '../../helpers/governance-proposal';
+import { deployGovernanceSimulation } from '../../helpers/governance-simulation';
+import {
+  createProposalMetadata,
+  getIpfsBytes32,
+  getIpfsCid,
+  getIpfsCidFromBytes32,
+  getProposalRecord,
+  recordProposalSubmission,
+  renderProposalDescription,
+  resolveProposalIpfsHash,
+} from '../../helpers/proposal-metadata';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { iProposalPayload } from '../../helpers/types';
+
+const RECORD_NAME = 'metadata-spec';
+
+makeSuite('Proposal metadata', (testEnv: TestEnv) => {
+  let payload: iProposalPayload;
+  let paths: string[] = [];
+
+  before(async () => {
+    const { psysToken, StakedPSYSV3, users } = testEnv;
+    payload = buildProposalPayload(
+      [
+        await buildVaultApprovalAction(
+          psysToken.address,
+          psysToken.address,
+          StakedPSYSV3.address,
+          MAX_UINT_AMOUNT
+        ),
+      ],
+      users[0].address
+    );
+  });
+
+  after(() => paths.forEach((path) => fs.existsSync(path) && fs.unlinkSync(path)));
+
+  it('Computes the CIDv0 of ipfs add and its bytes32', async () => {
+    const cid = getIpfsCid('hello world\n');
+    const bytes32 = getIpfsBytes32(cid);
+
+    expect(getIpfsCid('')).to.be.equal('QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH');
+    expect(cid).to.be.equal('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o');
+    expect(getIpfsBytes32(bytes32)).to.be.equal(bytes32);
+    expect(getIpfsCidFromBytes32(bytes32)).to.be.equal(cid);
+    expect(() => getIpfsBytes32('0x1234')).to.throw('Invalid IPFS hash 0x1234');
+  });
+
+  it('Records the description of the payload and proposes its hash', async () => {
+    const { deployer } = testEnv;
+    const { governance } = await deployGovernanceSimulation();
+
+    const { record, recordPath, descriptionPath } = await createProposalMetadata(
+      RECORD_NAME,
+      { title: 'Vault approval', author: 'Pegasys', summary: 'Approves the stake' },
+      payload
+    );
+    paths = [recordPath, descriptionPath];
+    const description = fs.readFileSync(descriptionPath, 'utf8');
+
+    expect(description).to.include('title: Vault approval');
+    expect(description).to.include('`approve(psys @');
+    expect(record.ipfsCid).to.be.equal(getIpfsCid(description));
+
+    const ipfsHash = resolveProposalIpfsHash(payload, { metadata: RECORD_NAME });
+    const proposalId = await submitProposal(payload, ipfsHash, deployer.signer, governance);
+    recordProposalSubmission(RECORD_NAME, governance, proposalId.toString());
+
+    expect(
+      (await (await getGovernance(governance)).getProposalById(proposalId)).ipfsHash
+    ).to.be.equal(record.ipfsHash);
+    expect(getProposalRecord(RECORD_NAME)?.proposalId).to.be.equal(proposalId.toString());
+  });
+
+  it('Rejects records of another payload and templates with unknown placeholders', async () => {
+    const { users } = testEnv;
+
+    expect(() =>
+      resolveProposalIpfsHash({ ...payload, executor: users[1].address }, { metadata: RECORD_NAME })
+    ).to.throw(`The proposal record ${RECORD_NAME} describes a different payload`);
+
+    let error: Error | undefined;
+    try {
+      await renderProposalDescription(
+        { title: 'Vault approval', author: 'Pegasys', summary: '' },
+        payload,
+        '{{title}} {{motivation}}'
+      );
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.include('No value for the placeholder {{motivation}}');
+  });
+});
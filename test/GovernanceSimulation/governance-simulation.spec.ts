@@ -0,0 +1,79 @@
+const { expect } = require('chai');
+
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildCallAction,
+  buildChangeAdminAction,
+  buildProposalPayload,
+} from '../../helpers/governance-proposal';
+import {
+  deployGovernanceSimulation,
+  simulateProposalPayload,
+} from '../../helpers/governance-simulation';
+import { changeProxyAdmin, getProxyAdmin } from '../../helpers/contracts-helpers';
+import { getGovernanceMock } from '../../helpers/contracts-accessors';
+import { timeLatest } from '../../helpers/misc-utils';
+import { SIMULATION_SHORT_DELAY } from '../../helpers/constants';
+import { eContractid, eProposalState, iGovernanceConfig } from '../../helpers/types';
+
+makeSuite('Governance simulation', (testEnv: TestEnv) => {
+  let simulation: iGovernanceConfig;
+
+  before(async () => {
+    simulation = await deployGovernanceSimulation();
+  });
+
+  it('Executes a proposal through the executor holding the proxy admin', async () => {
+    const { StakedPSYSV3, users } = testEnv;
+    await changeProxyAdmin(StakedPSYSV3.address, simulation.shortExecutor, users[0].signer);
+    const payload = buildProposalPayload([
+      await buildChangeAdminAction(StakedPSYSV3.address, users[1].address),
+    ]);
+    const queuedAt = await timeLatest();
+
+    const { proposalId, executionTime, checks } = await simulateProposalPayload(
+      simulation.governance,
+      payload,
+      {
+        voters: [users[2].signer, users[3].signer],
+        checks: async () => [
+          {
+            description: 'Proxy admin moved',
+            ok: (await getProxyAdmin(StakedPSYSV3.address)) === users[1].address,
+          },
+        ],
+      }
+    );
+    const governance = await getGovernanceMock({ address: simulation.governance });
+
+    expect(payload.executor).to.be.equal(simulation.shortExecutor);
+    expect(checks.every(({ ok }) => ok)).to.be.equal(true);
+    expect(await governance.getProposalState(proposalId)).to.be.equal(eProposalState.Executed);
+    expect(
+      executionTime >= queuedAt.plus(SIMULATION_SHORT_DELAY).toNumber(),
+      'execution before the timelock'
+    ).to.be.equal(true);
+  });
+
+  it('Fails with the revert reason of the action', async () => {
+    const { StakedPSYSV3 } = testEnv;
+    const action = await buildCallAction(
+      `contracts/interfaces/IPegasysDistributionManager.sol:${eContractid.IPegasysDistributionManager}`,
+      StakedPSYSV3.address,
+      'configureAssets',
+      [[{ emissionPerSecond: '100', totalStaked: '0', underlyingAsset: StakedPSYSV3.address }]]
+    );
+
+    let error: Error | undefined;
+    try {
+      await simulateProposalPayload(
+        simulation.governance,
+        buildProposalPayload([action], simulation.shortExecutor)
+      );
+    } catch (e) {
+      error = e as Error;
+    }
+
+    expect(error?.message).to.include('ONLY_EMISSION_MANAGER');
+  });
+});
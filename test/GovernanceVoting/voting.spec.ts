@@ -0,0 +1,106 @@
+const { expect } = require('chai');
+
+import fs from 'fs';
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildProposalPayload,
+  buildVaultApprovalAction,
+  submitProposal,
+} from '../../helpers/governance-proposal';
+import { deployGovernanceSimulation } from '../../helpers/governance-simulation';
+import { relayVoteSignatures, signVote } from '../../helpers/governance-voting';
+import { DRE, advanceBlockTo } from '../../helpers/misc-utils';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { eProposalState, iProposalVoteStatus, iVoteSignature } from '../../helpers/types';
+
+const SIGNATURES_FILE = './voting-spec-signatures.json';
+
+makeSuite('Governance voting', (testEnv: TestEnv) => {
+  let governance: string;
+  let proposalId: string;
+
+  before(async () => {
+    const { psysToken, StakedPSYSV3, deployer, users } = testEnv;
+    ({ governance } = await deployGovernanceSimulation());
+    const payload = buildProposalPayload(
+      [
+        await buildVaultApprovalAction(
+          psysToken.address,
+          psysToken.address,
+          StakedPSYSV3.address,
+          MAX_UINT_AMOUNT
+        ),
+      ],
+      users[0].address
+    );
+    proposalId = (
+      await submitProposal(payload, utils.formatBytes32String(''), deployer.signer, governance)
+    ).toString();
+  });
+
+  after(() => fs.existsSync(SIGNATURES_FILE) && fs.unlinkSync(SIGNATURES_FILE));
+
+  it('Votes and reports the vote with the voting power at the snapshot block', async () => {
+    const { StakedPSYSV3, deployer } = testEnv;
+
+    const pending: iProposalVoteStatus = await DRE.run('proposal-status', {
+      proposalId,
+      governance,
+    });
+    expect(pending.state).to.be.equal(eProposalState.Pending);
+    await advanceBlockTo(pending.startBlock + 1);
+
+    const status: iProposalVoteStatus = await DRE.run('vote', {
+      proposalId,
+      governance,
+      support: true,
+    });
+
+    expect(status.state).to.be.equal(eProposalState.Active);
+    expect(status.voter).to.be.equal(deployer.address);
+    expect(status.vote?.support).to.be.true;
+    expect(status.votingPower).to.be.equal(
+      (await StakedPSYSV3.getPowerAtBlock(deployer.address, status.startBlock, 0)).toString()
+    );
+
+    let error: Error | undefined;
+    try {
+      await DRE.run('vote', { proposalId, governance, support: false });
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.include(`${deployer.address} already voted for proposal`);
+  });
+
+  it('Relays signed votes, skipping the tampered ones', async () => {
+    const { users } = testEnv;
+
+    await DRE.run('sign-vote', { proposalId, governance, support: false, output: SIGNATURES_FILE });
+    const signatures: iVoteSignature[] = JSON.parse(fs.readFileSync(SIGNATURES_FILE, 'utf8'));
+    const signed = await signVote(governance, proposalId, true, users[1].signer);
+    const tampered = {
+      ...(await signVote(governance, proposalId, true, users[2].signer)),
+      support: false,
+    };
+    fs.writeFileSync(SIGNATURES_FILE, JSON.stringify([...signatures, signed, tampered]));
+
+    const { relayed, skipped }: Awaited<ReturnType<typeof relayVoteSignatures>> = await DRE.run(
+      'relay-vote',
+      { input: SIGNATURES_FILE }
+    );
+
+    expect(relayed.map(({ signature }) => signature.voter)).to.be.deep.equal([users[1].address]);
+    expect(skipped.map(({ reason }) => reason)).to.be.deep.equal([
+      `${signatures[0].voter} already voted for proposal ${proposalId}`,
+      `the signature is not from ${users[2].address}`,
+    ]);
+
+    const status: iProposalVoteStatus = await DRE.run('proposal-status', {
+      proposalId,
+      governance,
+      voter: users[1].address,
+    });
+    expect(status.vote?.support).to.be.true;
+  });
+});
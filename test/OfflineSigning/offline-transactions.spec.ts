@@ -0,0 +1,99 @@
+const { expect } = require('chai');
+
+import fs from 'fs';
+import { Wallet } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import { getProxyAdmin } from '../../helpers/contracts-helpers';
+import {
+  readOfflineTransactions,
+  signOfflineTransactions,
+} from '../../helpers/offline-transactions';
+import { DRE } from '../../helpers/misc-utils';
+import { eContractid } from '../../helpers/types';
+// @ts-ignore
+import { accounts } from '../../test-wallets';
+
+const UNSIGNED_FILE = 'offline-spec.unsigned.json';
+const SIGNED_FILE = 'offline-spec.signed.json';
+const KEYSTORE_FILE = 'offline-spec.keystore.json';
+const PASSWORD = 'offline-spec';
+
+makeSuite('Offline signing', (testEnv: TestEnv) => {
+  before(async () => {
+    // users[0], the proxy admin of the test deployment, signs from a keystore
+    const wallet = new Wallet(accounts[2].secretKey);
+    fs.writeFileSync(KEYSTORE_FILE, await wallet.encrypt(PASSWORD, { scrypt: { N: 1024 } }));
+    process.env.KEYSTORE_PASSWORD = PASSWORD;
+  });
+
+  after(() => {
+    delete process.env.KEYSTORE_PASSWORD;
+    [UNSIGNED_FILE, SIGNED_FILE, KEYSTORE_FILE].forEach(
+      (path) => fs.existsSync(path) && fs.unlinkSync(path)
+    );
+  });
+
+  it('Exports the admin handover, signs it with the keystore and broadcasts it', async () => {
+    const { StakedPSYSV3, users, deployer } = testEnv;
+
+    await DRE.run('handover-admin', {
+      newAdmin: users[1].address,
+      emissionManager: deployer.address,
+      proxyIds: eContractid.StakedPSYSV3,
+      unsigned: UNSIGNED_FILE,
+      signer: `address:${users[0].address}`,
+    });
+    const [exported] = readOfflineTransactions(UNSIGNED_FILE);
+
+    expect(exported.from).to.be.equal(users[0].address);
+    expect(exported.to).to.be.equal(StakedPSYSV3.address);
+    expect(exported.intent.call).to.include('changeAdmin');
+    expect(exported.signedTransaction).to.be.undefined;
+    expect(await getProxyAdmin(StakedPSYSV3.address)).to.be.equal(users[0].address);
+
+    await DRE.run('sign-offline', {
+      input: UNSIGNED_FILE,
+      signer: `keystore:${KEYSTORE_FILE}`,
+      output: SIGNED_FILE,
+    });
+    const hashes: string[] = await DRE.run('broadcast', { input: SIGNED_FILE });
+
+    expect(hashes.length).to.be.equal(1);
+    expect(await getProxyAdmin(StakedPSYSV3.address)).to.be.equal(users[1].address);
+  });
+
+  it('Broadcasts nothing when a signed transaction does not match its export', async () => {
+    const { StakedPSYSV3, users, deployer } = testEnv;
+
+    await DRE.run('handover-admin', {
+      newAdmin: users[2].address,
+      emissionManager: deployer.address,
+      proxyIds: eContractid.StakedPSYSV3,
+      unsigned: UNSIGNED_FILE,
+      signer: `address:${users[1].address}`,
+    });
+    const [exported] = readOfflineTransactions(UNSIGNED_FILE);
+    // Signed by users[1] with a raised gas limit, and the call is described as something else
+    const [{ signedTransaction }] = await signOfflineTransactions(
+      [{ ...exported, gasLimit: '1000000' }],
+      new Wallet(accounts[3].secretKey)
+    );
+    fs.writeFileSync(
+      SIGNED_FILE,
+      JSON.stringify([
+        { ...exported, intent: { ...exported.intent, call: 'approve()' }, signedTransaction },
+      ])
+    );
+
+    let error: Error | undefined;
+    try {
+      await DRE.run('broadcast', { input: SIGNED_FILE });
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).to.include('Nothing was broadcast');
+    expect(error?.message).to.include('signed gasLimit 1000000');
+    expect(error?.message).to.include('not to the exported approve()');
+    expect(await getProxyAdmin(StakedPSYSV3.address)).to.be.equal(users[1].address);
+  });
+});
@@ -80,7 +80,7 @@ makeSuite('PegasysIncentivesController claimRewards tests', (testEnv) => {
     let amountToClaim = _amountToClaim;
     it(caseName, async () => {
       await increaseTimeAndMine(100);
-      const { pegasysIncentivesController, StakedPSYS, psysToken, aDaiMock } = testEnv;
+      const { pegasysIncentivesController, StakedPSYSV3, psysToken, aDaiMock } = testEnv;
 
       const distributionEndTimestamp = await pegasysIncentivesController.DISTRIBUTION_END();
       const userAddress = await pegasysIncentivesController.signer.getAddress();
@@ -98,7 +98,7 @@ makeSuite('PegasysIncentivesController claimRewards tests', (testEnv) => {
 
       const destinationAddress = to || userAddress;
 
-      const destinationAddressBalanceBefore = await (toStake ? StakedPSYS : psysToken).balanceOf(
+      const destinationAddressBalanceBefore = await (toStake ? StakedPSYSV3 : psysToken).balanceOf(
         destinationAddress
       );
       await aDaiMock.setUserBalanceAndSupply(stakedByUser, totalStaked);
@@ -138,7 +138,7 @@ makeSuite('PegasysIncentivesController claimRewards tests', (testEnv) => {
         userAddress
       );
 
-      const destinationAddressBalanceAfter = await (toStake ? StakedPSYS : psysToken).balanceOf(
+      const destinationAddressBalanceAfter = await (toStake ? StakedPSYSV3 : psysToken).balanceOf(
         destinationAddress
       );
 
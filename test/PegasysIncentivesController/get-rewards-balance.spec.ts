@@ -5,7 +5,7 @@ import { getRewards } from '../DistributionManager/data-helpers/base-math';
 import { getUserIndex } from '../DistributionManager/data-helpers/asset-user-data';
 import { getAssetsData } from '../DistributionManager/data-helpers/asset-data';
 import { advanceBlock, timeLatest, waitForTx, increaseTimeAndMine } from '../../helpers/misc-utils';
-import { getNormalizedDistribution } from '../helpers/ray-math';
+import { getNormalizedDistribution } from '../../helpers/ray-math';
 import { getBlockTimestamp } from '../../helpers/contracts-helpers';
 
 type ScenarioAction = {
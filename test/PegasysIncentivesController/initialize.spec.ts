@@ -10,10 +10,10 @@ makeSuite('PegasysIncentivesController initialize', (testEnv: TestEnv) => {
     await expect(pegasysIncentivesController.initialize()).to.be.reverted;
   });
   it('allowance on psys token should be granted to psm contract for pei', async () => {
-    const { pegasysIncentivesController, StakedPSYS, psysToken } = testEnv;
+    const { pegasysIncentivesController, StakedPSYSV3, psysToken } = testEnv;
     await expect(
       (
-        await psysToken.allowance(pegasysIncentivesController.address, StakedPSYS.address)
+        await psysToken.allowance(pegasysIncentivesController.address, StakedPSYSV3.address)
       ).toString()
     ).to.be.equal(MAX_UINT_AMOUNT);
   });
@@ -1,17 +1,13 @@
 import chai, { expect } from 'chai';
-import { fail } from 'assert';
 import { solidity } from 'ethereum-waffle';
 import { makeSuite, TestEnv } from '../helpers/make-suite';
 import { DRE, advanceBlock, timeLatest, waitForTx } from '../../helpers/misc-utils';
-import {
-  buildDelegateParams,
-  buildDelegateByTypeParams,
-  getCurrentBlock,
-  getSignatureFromTypedData,
-} from '../../helpers/contracts-helpers';
+import { getCurrentBlock } from '../../helpers/contracts-helpers';
+import { buildDelegate, buildDelegateByType, signTypedData } from '../../helpers/typed-data';
 import { parseEther } from 'ethers/lib/utils';
 import { MAX_UINT_AMOUNT, ZERO_ADDRESS } from '../../helpers/constants';
 import { deployDoubleTransferHelper } from '../../helpers/contracts-accessors';
+import { eDelegationType } from '../../helpers/types';
 
 chai.use(solidity);
 
@@ -421,26 +417,22 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     expect(priorDelegatee.toString()).to.be.equal(user1.address);
 
     // Prepare params to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user1.address)).toString();
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateByTypeParams(
-      chainId,
+    const msgParams = await buildDelegateByType(
       StakedPSYSV3.address,
+      user1.address,
       user2.address,
-      '0',
-      nonce,
-      expiration
+      eDelegationType.VotingPower,
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[3].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit message via delegateByTypeBySig
     const tx = await StakedPSYSV3.connect(user1.signer).delegateByTypeBySig(
@@ -499,25 +491,21 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     );
 
     // Prepare parameters to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user1.address)).toString();
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateByTypeParams(
-      chainId,
+    const msgParams = await buildDelegateByType(
       StakedPSYSV3.address,
+      user1.address,
       user3.address,
-      '1',
-      nonce,
-      expiration
+      eDelegationType.PropositionPower,
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[3].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit tx via delegateByTypeBySig
     const tx = await StakedPSYSV3.connect(user1.signer).delegateByTypeBySig(
@@ -596,24 +584,20 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     );
 
     // Prepare parameters to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user2.address)).toString();
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateParams(
-      chainId,
+    const msgParams = await buildDelegate(
       StakedPSYSV3.address,
+      user2.address,
       user4.address,
-      nonce,
-      expiration
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[4].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit tx via delegateByTypeBySig
     const tx = await StakedPSYSV3.connect(user2.signer).delegateBySig(
@@ -693,26 +677,22 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     } = testEnv;
 
     // Prepare params to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user1.address)).toString();
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateByTypeParams(
-      chainId,
+    const msgParams = await buildDelegateByType(
       StakedPSYSV3.address,
+      user1.address,
       user2.address,
-      '0',
-      nonce,
-      expiration
+      eDelegationType.VotingPower,
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[1].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit message via delegateByTypeBySig
     await expect(
@@ -735,25 +715,21 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     } = testEnv;
 
     // Prepare params to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateByTypeParams(
-      chainId,
+    const msgParams = await buildDelegateByType(
       StakedPSYSV3.address,
+      user1.address,
       user2.address,
-      '0',
-      MAX_UINT_AMOUNT, // bad nonce
-      expiration
+      eDelegationType.VotingPower,
+      expiration,
+      MAX_UINT_AMOUNT // bad nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[1].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit message via delegateByTypeBySig
     await expect(
@@ -776,26 +752,22 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
     } = testEnv;
 
     // Prepare params to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user1.address)).toString();
     const expiration = '0';
-    const msgParams = buildDelegateByTypeParams(
-      chainId,
+    const msgParams = await buildDelegateByType(
       StakedPSYSV3.address,
+      user1.address,
       user2.address,
-      '0',
-      nonce,
-      expiration
+      eDelegationType.VotingPower,
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[3].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit message via delegateByTypeBySig
     await expect(
@@ -817,24 +789,20 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
       StakedPSYSV3,
     } = testEnv;
     // Prepare parameters to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user2.address)).toString();
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateParams(
-      chainId,
+    const msgParams = await buildDelegate(
       StakedPSYSV3.address,
+      user2.address,
       user4.address,
-      nonce,
-      expiration
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[4].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit tx via delegateBySig
     await expect(
@@ -848,24 +816,20 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
       StakedPSYSV3,
     } = testEnv;
     // Prepare parameters to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = MAX_UINT_AMOUNT;
     const expiration = MAX_UINT_AMOUNT;
-    const msgParams = buildDelegateParams(
-      chainId,
+    const msgParams = await buildDelegate(
       StakedPSYSV3.address,
+      user2.address,
       user4.address,
-      nonce,
-      expiration
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[4].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit tx via delegateByTypeBySig
     await expect(
@@ -879,24 +843,20 @@ makeSuite('StakedPSYSV3. Power Delegations', (testEnv: TestEnv) => {
       StakedPSYSV3,
     } = testEnv;
     // Prepare parameters to sign message
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const nonce = (await StakedPSYSV3._nonces(user2.address)).toString();
     const expiration = '0';
-    const msgParams = buildDelegateParams(
-      chainId,
+    const msgParams = await buildDelegate(
       StakedPSYSV3.address,
+      user2.address,
       user4.address,
-      nonce,
-      expiration
+      expiration,
+      nonce
     );
     const ownerPrivateKey = require('../../test-wallets').accounts[4].secretKey;
     if (!ownerPrivateKey) {
       throw new Error('INVALID_OWNER_PK');
     }
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     // Transmit tx via delegateByTypeBySig
     await expect(
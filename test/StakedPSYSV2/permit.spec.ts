@@ -3,7 +3,7 @@ import { fail } from 'assert';
 import { solidity } from 'ethereum-waffle';
 import { makeSuite, TestEnv } from '../helpers/make-suite';
 import { DRE, advanceBlock, timeLatest, waitForTx } from '../../helpers/misc-utils';
-import { buildPermitParams, getSignatureFromTypedData } from '../../helpers/contracts-helpers';
+import { buildStakedPSYSPermit, signTypedData } from '../../helpers/typed-data';
 import { MAX_UINT_AMOUNT, ZERO_ADDRESS } from '../../helpers/constants';
 import { parseEther } from 'ethers/lib/utils';
 
@@ -15,21 +15,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const expiration = 0;
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = parseEther('2').toString();
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
       permitAmount,
-      expiration.toFixed()
+      expiration.toFixed(),
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -42,7 +37,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       'INVALID_ALLOWANCE_BEFORE_PERMIT'
     );
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await expect(
       StakedPSYSV3.connect(users[1].signer).permit(
@@ -77,14 +72,13 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const deadline = MAX_UINT_AMOUNT;
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = parseEther('2').toString();
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       deadline,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -97,7 +91,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       'INVALID_ALLOWANCE_BEFORE_PERMIT'
     );
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await waitForTx(
       await StakedPSYSV3.connect(users[1].signer).permit(
@@ -119,21 +113,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const deadline = MAX_UINT_AMOUNT;
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = '0';
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       deadline,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -141,7 +130,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     expect((await StakedPSYSV3.allowance(owner, spender)).toString()).to.be.equal(
       parseEther('2'),
@@ -172,21 +161,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const deadline = MAX_UINT_AMOUNT;
     const nonce = 1000;
     const permitAmount = '0';
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       deadline,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -194,7 +178,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await expect(
       StakedPSYSV3.connect(users[1].signer).permit(owner, spender, permitAmount, deadline, v, r, s)
@@ -206,21 +190,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const expiration = '1';
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = '0';
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       expiration,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -228,7 +207,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await expect(
       StakedPSYSV3.connect(users[1].signer).permit(
@@ -248,21 +227,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const deadline = MAX_UINT_AMOUNT;
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = '0';
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       deadline,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -270,7 +244,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await expect(
       StakedPSYSV3.connect(users[1].signer).permit(
@@ -290,21 +264,16 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
     const owner = deployer.address;
     const spender = users[1].address;
 
-    const { chainId } = await DRE.ethers.provider.getNetwork();
-    if (!chainId) {
-      fail("Current network doesn't have CHAIN ID");
-    }
     const expiration = MAX_UINT_AMOUNT;
     const nonce = (await StakedPSYSV3._nonces(owner)).toNumber();
     const permitAmount = '0';
-    const msgParams = buildPermitParams(
-      chainId,
+    const msgParams = await buildStakedPSYSPermit(
       StakedPSYSV3.address,
       owner,
       spender,
-      nonce,
+      permitAmount,
       expiration,
-      permitAmount
+      nonce
     );
 
     const ownerPrivateKey = require('../../test-wallets').accounts[0].secretKey;
@@ -312,7 +281,7 @@ makeSuite('StakedPSYSV3. Permit', (testEnv: TestEnv) => {
       throw new Error('INVALID_OWNER_PK');
     }
 
-    const { v, r, s } = getSignatureFromTypedData(ownerPrivateKey, msgParams);
+    const { v, r, s } = await signTypedData(msgParams, ownerPrivateKey);
 
     await expect(
       StakedPSYSV3.connect(users[1].signer).permit(
@@ -0,0 +1,158 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  deployMockAggregator,
+  deployStakedTokenDataProvider,
+  deployStakedTokenMock,
+} from '../../helpers/contracts-accessors';
+import { COOLDOWN_SECONDS, UNSTAKE_WINDOW } from '../../helpers/constants';
+import { increaseTimeAndMine, timeLatest } from '../../helpers/misc-utils';
+import { StakedTokenDataProvider } from '../../types/StakedTokenDataProvider';
+import { StakedTokenMock } from '../../types/StakedTokenMock';
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+const APY_PRECISION = 10000;
+const DISTRIBUTION_DURATION = 30 * 24 * 60 * 60;
+
+const ETH_USD_PRICE = utils.parseUnits('2000', 8);
+const PSYS_PRICE_ETH = utils.parseEther('0.0005');
+const BPT_PRICE_ETH = utils.parseEther('0.02');
+
+makeSuite('StakedTokenDataProvider', (testEnv: TestEnv) => {
+  let stkPSYS: StakedTokenMock;
+  let stkBpt: StakedTokenMock;
+  let dataProvider: StakedTokenDataProvider;
+
+  before(async () => {
+    const { psysToken } = testEnv;
+    const args: [string, string, string, string] = [
+      psysToken.address,
+      COOLDOWN_SECONDS,
+      UNSTAKE_WINDOW,
+      DISTRIBUTION_DURATION.toString(),
+    ];
+    stkPSYS = await deployStakedTokenMock(args);
+    stkBpt = await deployStakedTokenMock(args);
+
+    dataProvider = await deployStakedTokenDataProvider([
+      psysToken.address,
+      stkPSYS.address,
+      psysToken.address,
+      stkBpt.address,
+      (await deployMockAggregator(ETH_USD_PRICE.toString(), 'ethUsd')).address,
+      (await deployMockAggregator(PSYS_PRICE_ETH.toString(), 'psys')).address,
+      (await deployMockAggregator(BPT_PRICE_ETH.toString(), 'bpt')).address,
+    ]);
+  });
+
+  it('Returns a zero APY without stakers', async () => {
+    await stkPSYS.setEmissionPerSecond(utils.parseEther('0.001'));
+
+    const { stakeApy, stakedTokenTotalSupply } = await dataProvider.getstkPSYSData();
+
+    expect(stakedTokenTotalSupply.toString()).to.be.equal('0');
+    expect(stakeApy.toString()).to.be.equal('0');
+  });
+
+  it('Computes the stkPSYS APY from the emission and the total supply', async () => {
+    const { users } = testEnv;
+    const emissionPerSecond = utils.parseEther('0.001');
+    await stkPSYS.setBalance(users[0].address, utils.parseEther('600'));
+    await stkPSYS.setBalance(users[1].address, utils.parseEther('400'));
+
+    const data = await dataProvider.getstkPSYSData();
+
+    expect(data.stakedTokenTotalSupply.toString()).to.be.equal(utils.parseEther('1000').toString());
+    expect(data.distributionPerSecond.toString()).to.be.equal(emissionPerSecond.toString());
+    expect(data.stakedTokenPriceEth.toString()).to.be.equal(PSYS_PRICE_ETH.toString());
+    expect(data.stakeApy.toString()).to.be.equal(
+      emissionPerSecond
+        .mul(SECONDS_PER_YEAR)
+        .mul(APY_PRECISION)
+        .div(data.stakedTokenTotalSupply)
+        .toString()
+    );
+    // 0.001 PSYS per second is 31536 PSYS a year over 1000 stkPSYS, a 3153.6% APY
+    expect(data.stakeApy.toString()).to.be.equal('315360');
+  });
+
+  it('Computes the stkBpt APY from the value of the rewards and the stake', async () => {
+    const { users } = testEnv;
+    const emissionPerSecond = utils.parseEther('0.01');
+    const supply = utils.parseEther('50');
+    await stkBpt.setEmissionPerSecond(emissionPerSecond);
+    await stkBpt.setBalance(users[0].address, supply);
+
+    const { stakeApy, stakedTokenPriceEth, rewardTokenPriceEth } =
+      await dataProvider.getStkBptData();
+
+    expect(stakedTokenPriceEth.toString()).to.be.equal(BPT_PRICE_ETH.toString());
+    expect(rewardTokenPriceEth.toString()).to.be.equal(PSYS_PRICE_ETH.toString());
+    expect(stakeApy.toString()).to.be.equal(
+      emissionPerSecond
+        .mul(PSYS_PRICE_ETH)
+        .mul(SECONDS_PER_YEAR)
+        .mul(APY_PRECISION)
+        .div(supply.mul(BPT_PRICE_ETH))
+        .toString()
+    );
+  });
+
+  it('Converts balances to redeemable amounts with the exchange rate', async () => {
+    const { users } = testEnv;
+    await stkPSYS.setExchangeRate(utils.parseEther('1.25'));
+
+    const [data, userData] = await dataProvider.getstkPSYSUserData(users[0].address);
+
+    expect(data.stakedTokenTotalRedeemableAmount.toString()).to.be.equal(
+      utils.parseEther('800').toString()
+    );
+    expect(userData.stakedTokenUserBalance.toString()).to.be.equal(
+      utils.parseEther('600').toString()
+    );
+    expect(userData.stakedTokenRedeemableAmount.toString()).to.be.equal(
+      utils.parseEther('480').toString()
+    );
+  });
+
+  it('Returns the rewards, underlying balance and cooldown of a user', async () => {
+    const { users, psysToken } = testEnv;
+    const cooldownTimestamp = (await timeLatest()).toNumber();
+    await stkPSYS.setRewards(users[1].address, utils.parseEther('3'));
+    await stkPSYS.setCooldown(users[1].address, cooldownTimestamp, utils.parseEther('400'));
+
+    const [, userData] = await dataProvider.getstkPSYSUserData(users[1].address);
+
+    expect(userData.rewardsToClaim.toString()).to.be.equal(utils.parseEther('3').toString());
+    expect(userData.underlyingTokenUserBalance.toString()).to.be.equal(
+      (await psysToken.balanceOf(users[1].address)).toString()
+    );
+    expect(userData.userCooldownTimestamp).to.be.equal(cooldownTimestamp);
+    expect(userData.userCooldownAmount.toString()).to.be.equal(utils.parseEther('400').toString());
+  });
+
+  it('Returns both staked tokens with the ETH price', async () => {
+    const [stkPSYSData, stkBptData, ethPrice] = await dataProvider.getAllStakedTokenData();
+
+    expect(stkPSYSData.stakedTokenTotalSupply.toString()).to.be.equal(
+      utils.parseEther('1000').toString()
+    );
+    expect(stkBptData.stakedTokenTotalSupply.toString()).to.be.equal(
+      utils.parseEther('50').toString()
+    );
+    expect(ethPrice.toString()).to.be.equal(ETH_USD_PRICE.toString());
+  });
+
+  it('Stops the distribution and the APY after the distribution end', async () => {
+    await increaseTimeAndMine(DISTRIBUTION_DURATION + 1);
+
+    const { distributionPerSecond, stakeApy, distributionEnd } =
+      await dataProvider.getstkPSYSData();
+
+    expect(distributionEnd.lt((await timeLatest()).toString())).to.be.equal(true);
+    expect(distributionPerSecond.toString()).to.be.equal('0');
+    expect(stakeApy.toString()).to.be.equal('0');
+  });
+});
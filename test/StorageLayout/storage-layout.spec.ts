@@ -0,0 +1,89 @@
+const { expect } = require('chai');
+
+import { makeSuite } from '../helpers/make-suite';
+import {
+  checkStorageLayoutCompatibility,
+  compareStorageLayouts,
+  getStorageLayout,
+} from '../../helpers/storage-layout';
+import { eContractid, iStorageVariable } from '../../helpers/types';
+
+const variable = (
+  label: string,
+  slot: string,
+  type: string = 'mapping(address => uint256)'
+): iStorageVariable => ({
+  label,
+  slot,
+  offset: 0,
+  type,
+  contract: 'StakedToken',
+});
+
+const CURRENT_LAYOUT = [
+  variable('stakerRewardsToClaim', '0'),
+  variable('stakersCooldowns', '1'),
+  variable('_votingDelegates', '2', 'mapping(address => address)'),
+];
+
+makeSuite('Storage layout', () => {
+  it('Accepts appended variables', async () => {
+    const issues = compareStorageLayouts(CURRENT_LAYOUT, [
+      ...CURRENT_LAYOUT,
+      variable('_propositionPowerDelegates', '3', 'mapping(address => address)'),
+    ]);
+
+    expect(issues).to.be.deep.equal([]);
+  });
+
+  it('Flags reordered variables', async () => {
+    const [rewards, cooldowns, delegates] = CURRENT_LAYOUT;
+    const issues = compareStorageLayouts(CURRENT_LAYOUT, [
+      { ...cooldowns, slot: '0' },
+      { ...rewards, slot: '1' },
+      delegates,
+    ]);
+
+    expect(issues.map(({ kind, breaking }) => [kind, breaking])).to.be.deep.equal([
+      ['moved', true],
+      ['moved', true],
+    ]);
+  });
+
+  it('Flags retyped variables', async () => {
+    const [rewards, cooldowns, delegates] = CURRENT_LAYOUT;
+    const issues = compareStorageLayouts(CURRENT_LAYOUT, [
+      rewards,
+      { ...cooldowns, type: 'mapping(address => uint40)' },
+      delegates,
+    ]);
+
+    expect(issues.map(({ kind }) => kind)).to.be.deep.equal(['retyped']);
+  });
+
+  it('Flags removed variables and reports renamed ones without breaking', async () => {
+    const [rewards, , delegates] = CURRENT_LAYOUT;
+    const issues = compareStorageLayouts(CURRENT_LAYOUT, [
+      { ...rewards, label: 'rewardsToClaim' },
+      { ...delegates, slot: '1' },
+    ]);
+
+    expect(issues.map(({ kind, breaking }) => [kind, breaking])).to.be.deep.equal([
+      ['renamed', false],
+      ['removed', true],
+      ['moved', true],
+    ]);
+  });
+
+  it('Reads the layout of StakedPSYSV3 from the compiler output', async () => {
+    const layout = await getStorageLayout(eContractid.StakedPSYSV3);
+
+    expect(layout.map(({ label }) => label)).to.include.members([
+      'stakerRewardsToClaim',
+      'stakersCooldowns',
+    ]);
+    expect(
+      await checkStorageLayoutCompatibility(eContractid.StakedPSYSV3, eContractid.StakedPSYSV3)
+    ).to.be.empty;
+  });
+});
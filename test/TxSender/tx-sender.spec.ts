@@ -0,0 +1,61 @@
+const { expect } = require('chai');
+
+import { utils } from 'ethers';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import { getTransactionFees, getTxSigner } from '../../helpers/tx-sender';
+import { DRE, sleep } from '../../helpers/misc-utils';
+
+makeSuite('Transaction sender', (testEnv: TestEnv) => {
+  afterEach(async () => {
+    delete process.env.TX_MAX_FEE_GWEI;
+    delete process.env.TX_TIMEOUT;
+    delete process.env.TX_POLLING_INTERVAL;
+    await DRE.network.provider.send('evm_setAutomine', [true]);
+  });
+
+  it('Sends EIP-1559 transactions over the base fee', async () => {
+    const { users } = testEnv;
+    const signer = await getTxSigner(users[0].signer);
+
+    const tx = await signer.sendTransaction({ to: users[1].address, value: 1 });
+    const receipt = await tx.wait();
+    const { baseFeePerGas } = await DRE.ethers.provider.getBlock(receipt.blockNumber);
+
+    expect(tx.type).to.be.equal(2);
+    expect(tx.maxFeePerGas!.gte(baseFeePerGas!)).to.be.equal(true);
+    expect(receipt.status).to.be.equal(1);
+  });
+
+  it('Caps the max fee with TX_MAX_FEE_GWEI', async () => {
+    process.env.TX_MAX_FEE_GWEI = '0.000000001';
+
+    const { maxFeePerGas, maxPriorityFeePerGas } = await getTransactionFees();
+
+    expect(maxFeePerGas).to.be.equal('1');
+    expect(maxPriorityFeePerGas).to.be.equal('1');
+  });
+
+  it('Replaces a transaction not mined before the timeout with bumped fees', async () => {
+    const { users } = testEnv;
+    const signer = await getTxSigner(users[0].signer);
+    process.env.TX_TIMEOUT = '2';
+    process.env.TX_POLLING_INTERVAL = '100';
+    await DRE.network.provider.send('evm_setAutomine', [false]);
+
+    const tx = await signer.sendTransaction({ to: users[1].address, value: 1 });
+    const receiptPromise = tx.wait();
+    // Mined once the replacement is in the mempool, before the next timeout
+    await sleep(3000);
+    await DRE.network.provider.send('evm_mine', []);
+    const receipt = await receiptPromise;
+
+    const replacement = await DRE.ethers.provider.getTransaction(receipt.transactionHash);
+    expect(receipt.transactionHash).to.not.be.equal(tx.hash);
+    expect(replacement.nonce).to.be.equal(tx.nonce);
+    expect(
+      replacement.maxFeePerGas!.gte(tx.maxFeePerGas!.mul(115).div(100)),
+      `replacement max fee ${utils.formatUnits(replacement.maxFeePerGas!, 'gwei')} gwei`
+    ).to.be.equal(true);
+    expect(await DRE.ethers.provider.getTransactionReceipt(tx.hash)).to.be.equal(null);
+  });
+});
@@ -0,0 +1,112 @@
+const { expect } = require('chai');
+
+import { parseEther } from 'ethers/lib/utils';
+import { makeSuite, TestEnv } from '../helpers/make-suite';
+import {
+  buildDelegate,
+  buildDelegateByType,
+  buildStakedPSYSPermit,
+  getEIP712Domain,
+  signTypedData,
+} from '../../helpers/typed-data';
+import { DRE } from '../../helpers/misc-utils';
+import { MAX_UINT_AMOUNT } from '../../helpers/constants';
+import { eDelegationType } from '../../helpers/types';
+// @ts-ignore
+import { accounts } from '../../test-wallets';
+
+makeSuite('EIP-712 typed data', (testEnv: TestEnv) => {
+  it('Reads the domain of stkPSYS and rejects tokens without DOMAIN_SEPARATOR', async () => {
+    const { StakedPSYSV3, psysToken } = testEnv;
+
+    expect(await getEIP712Domain(StakedPSYSV3.address)).to.be.deep.equal({
+      // The constructor sets the name in the implementation storage, so the proxy reads it empty
+      name: await StakedPSYSV3.name(),
+      version: '1',
+      chainId: DRE.network.config.chainId,
+      verifyingContract: StakedPSYSV3.address,
+    });
+
+    let error: Error | undefined;
+    try {
+      await getEIP712Domain(psysToken.address);
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error).to.not.be.undefined;
+  });
+
+  it('Submits a permit signed through the signer', async () => {
+    const { StakedPSYSV3, users } = testEnv;
+    const [owner, spender] = [users[1], users[2]];
+    const value = parseEther('2').toString();
+
+    const permit = await buildStakedPSYSPermit(
+      StakedPSYSV3.address,
+      owner.address,
+      spender.address,
+      value
+    );
+    const { v, r, s } = await signTypedData(permit, owner.signer);
+    await StakedPSYSV3.connect(spender.signer).permit(
+      owner.address,
+      spender.address,
+      value,
+      MAX_UINT_AMOUNT,
+      v,
+      r,
+      s
+    );
+
+    expect((await StakedPSYSV3.allowance(owner.address, spender.address)).toString()).to.be.equal(
+      value
+    );
+  });
+
+  it('Submits delegations signed with a raw key, with the nonces read from the chain', async () => {
+    const { StakedPSYSV3, users } = testEnv;
+    // users[k] holds the key of accounts[k + 2]
+    const [owner, delegatee] = [users[2], users[3]];
+    const ownerPrivateKey = accounts[4].secretKey;
+
+    const byType = await buildDelegateByType(
+      StakedPSYSV3.address,
+      owner.address,
+      delegatee.address,
+      eDelegationType.PropositionPower
+    );
+    const first = await signTypedData(byType, ownerPrivateKey);
+    await StakedPSYSV3.connect(users[4].signer).delegateByTypeBySig(
+      delegatee.address,
+      eDelegationType.PropositionPower,
+      byType.message.nonce,
+      MAX_UINT_AMOUNT,
+      first.v,
+      first.r,
+      first.s
+    );
+
+    expect(
+      await StakedPSYSV3.getDelegateeByType(owner.address, eDelegationType.PropositionPower)
+    ).to.be.equal(delegatee.address);
+
+    const delegate = await buildDelegate(StakedPSYSV3.address, owner.address, users[4].address);
+    expect(delegate.message.nonce).to.be.equal((parseInt(byType.message.nonce) + 1).toString());
+    const second = await signTypedData(delegate, ownerPrivateKey);
+    await StakedPSYSV3.connect(users[4].signer).delegateBySig(
+      users[4].address,
+      delegate.message.nonce,
+      MAX_UINT_AMOUNT,
+      second.v,
+      second.r,
+      second.s
+    );
+
+    expect(
+      await StakedPSYSV3.getDelegateeByType(owner.address, eDelegationType.VotingPower)
+    ).to.be.equal(users[4].address);
+    expect(
+      await StakedPSYSV3.getDelegateeByType(owner.address, eDelegationType.PropositionPower)
+    ).to.be.equal(users[4].address);
+  });
+});
@@ -5,7 +5,7 @@ import { initializeMakeSuite } from './helpers/make-suite';
 import { deployMintableErc20, deployATokenMock } from '../helpers/contracts-accessors';
 import { waitForTx } from '../helpers/misc-utils';
 import { MintableErc20 } from '../types/MintableErc20';
-import { testDeploypsysStakeV2, testDeploypsysStakeV1 } from './helpers/deploy';
+import { testDeploypsysStakeV3 } from './helpers/deploy';
 
 const topUpWalletsWithPSYS = async (
   wallets: Signer[],
@@ -36,9 +36,7 @@ const buildTestEnv = async (deployer: Signer, vaultOfRewards: Signer, restWallet
     ethers.utils.parseEther('100').toString()
   );
 
-  await testDeploypsysStakeV2(psysToken, deployer, vaultOfRewards, restWallets);
-
-  const { pegasysIncentivesControllerProxy } = await testDeploypsysStakeV1(
+  const { pegasysIncentivesControllerProxy } = await testDeploypsysStakeV3(
     psysToken,
     deployer,
     vaultOfRewards,
@@ -3,16 +3,12 @@ import {
   PSM_STAKER_PREMIUM,
   COOLDOWN_SECONDS,
   UNSTAKE_WINDOW,
-  STAKED_PSYS_NAME,
-  STAKED_PSYS_SYMBOL,
-  STAKED_PSYS_DECIMALS,
   MAX_UINT_AMOUNT,
+  ZERO_ADDRESS,
 } from '../../helpers/constants';
 import {
   deployInitializableAdminUpgradeabilityProxy,
   deployPegasysIncentivesController,
-  deployStakedPSYS,
-  deployMockTransferHook,
   deployStakedPSYSV3,
 } from '../../helpers/contracts-accessors';
 import { insertContractAddressInDb } from '../../helpers/contracts-helpers';
@@ -20,7 +16,7 @@ import { waitForTx } from '../../helpers/misc-utils';
 import { eContractid } from '../../helpers/types';
 import { MintableErc20 } from '../../types/MintableErc20';
 
-export const testDeploypsysStakeV1 = async (
+export const testDeploypsysStakeV3 = async (
   psysToken: MintableErc20,
   deployer: Signer,
   vaultOfRewards: Signer,
@@ -46,7 +42,7 @@ export const testDeploypsysStakeV1 = async (
     (1000 * 60 * 60).toString(),
   ]);
 
-  const StakedPSYSImpl = await deployStakedPSYS([
+  const StakedPSYSImpl = await deployStakedPSYSV3([
     stakedToken,
     rewardsToken,
     COOLDOWN_SECONDS,
@@ -54,16 +50,10 @@ export const testDeploypsysStakeV1 = async (
     vaultOfRewardsAddress,
     emissionManager,
     (1000 * 60 * 60).toString(),
+    ZERO_ADDRESS,
   ]);
 
-  const mockTransferHook = await deployMockTransferHook();
-
-  const StakedPSYSEncodedInitialize = StakedPSYSImpl.interface.encodeFunctionData('initialize', [
-    mockTransferHook.address,
-    STAKED_PSYS_NAME,
-    STAKED_PSYS_SYMBOL,
-    STAKED_PSYS_DECIMALS,
-  ]);
+  const StakedPSYSEncodedInitialize = StakedPSYSImpl.interface.encodeFunctionData('initialize');
   await StakedPSYSProxy['initialize(address,address,bytes)'](
     StakedPSYSImpl.address,
     proxyAdmin,
@@ -72,7 +62,7 @@ export const testDeploypsysStakeV1 = async (
   await waitForTx(
     await psysToken.connect(vaultOfRewards).approve(StakedPSYSProxy.address, MAX_UINT_AMOUNT)
   );
-  await insertContractAddressInDb(eContractid.StakedPSYS, StakedPSYSProxy.address);
+  await insertContractAddressInDb(eContractid.StakedPSYSV3, StakedPSYSProxy.address);
 
   const peiEncodedInitialize =
     pegasysIncentivesControllerImplementation.interface.encodeFunctionData('initialize');
@@ -96,45 +86,3 @@ export const testDeploypsysStakeV1 = async (
     StakedPSYSProxy,
   };
 };
-
-export const testDeploypsysStakeV2 = async (
-  psysToken: MintableErc20,
-  deployer: Signer,
-  vaultOfRewards: Signer,
-  restWallets: Signer[]
-) => {
-  const stakedToken = psysToken.address;
-  const rewardsToken = psysToken.address;
-  const emissionManager = await deployer.getAddress();
-  const vaultOfRewardsAddress = await vaultOfRewards.getAddress();
-
-  const { StakedPSYSProxy } = await testDeploypsysStakeV1(
-    psysToken,
-    deployer,
-    vaultOfRewards,
-    restWallets
-  );
-
-  const StakedPSYSImpl = await deployStakedPSYSV3([
-    stakedToken,
-    rewardsToken,
-    COOLDOWN_SECONDS,
-    UNSTAKE_WINDOW,
-    vaultOfRewardsAddress,
-    emissionManager,
-    (1000 * 60 * 60).toString(),
-  ]);
-
-  const StakedPSYSEncodedInitialize = StakedPSYSImpl.interface.encodeFunctionData('initialize');
-
-  await StakedPSYSProxy.connect(restWallets[0]).upgradeToAndCall(
-    StakedPSYSImpl.address,
-    StakedPSYSEncodedInitialize
-  );
-
-  await insertContractAddressInDb(eContractid.StakedPSYSV3, StakedPSYSProxy.address);
-
-  return {
-    StakedPSYSProxy,
-  };
-};
@@ -11,7 +11,6 @@ import {
   getPegasysIncentivesController,
   getATokenMock,
   getMintableErc20,
-  getStakedPSYS,
   getStakedPSYSV3,
 } from '../../helpers/contracts-accessors';
 import { PegasysIncentivesController } from '../../types/PegasysIncentivesController';
@@ -37,6 +36,7 @@ export interface TestEnv {
   users: SignerWithAddress[];
   psysToken: MintableErc20;
   pegasysIncentivesController: PegasysIncentivesController;
+  // Unset, the V1 contracts are commented out and the setup only deploys StakedPSYSV3
   StakedPSYS: StakedPSYS;
   aDaiMock: ATokenMock;
   aWethMock: ATokenMock;
@@ -80,7 +80,6 @@ export async function initializeMakeSuite() {
   }
   testEnv.deployer = deployer;
   testEnv.rewardsVault = rewardsVault;
-  testEnv.StakedPSYS = await getStakedPSYS();
   testEnv.StakedPSYSV3 = await getStakedPSYSV3();
   testEnv.pegasysIncentivesController = await getPegasysIncentivesController();
   testEnv.psysToken = await getMintableErc20();